@@ -0,0 +1,103 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { fetchAllEntities, YextApiError } from "@/lib/yext-api";
+import { getConfiguredAdjudicator } from "@/lib/adjudication";
+import { discoverFields } from "@/lib/field-discovery";
+import {
+  detectConflictsAsync,
+  type AnalysisEvent,
+} from "@/lib/conflict-detector";
+
+// Fetch all entities and run conflict detection, streaming progress as NDJSON
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  if (!body) {
+    return NextResponse.json(
+      { error: "Invalid request body" },
+      { status: 400 }
+    );
+  }
+
+  const { businessId, apiKey, profile } = body;
+
+  if (!apiKey) {
+    return NextResponse.json({ error: "API key is required" }, { status: 400 });
+  }
+
+  if (!businessId) {
+    return NextResponse.json(
+      { error: "Business ID is required" },
+      { status: 400 }
+    );
+  }
+
+  console.log(`[v0] Starting server-side analysis for account ${businessId}`);
+
+  const encoder = new TextEncoder();
+  // Aborted when the client disconnects, so detection stops with it
+  const abortController = new AbortController();
+  request.signal.addEventListener("abort", () => abortController.abort());
+  let closed = false;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: AnalysisEvent) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+      };
+
+      try {
+        const { entities } = await fetchAllEntities(
+          businessId,
+          apiKey,
+          (progress) => send({ type: "fetch", ...progress }),
+          { languageProfiles: true }
+        );
+
+        // Fields are discovered before detection so they can be opted into
+        // comparison for the next run
+        send({ type: "fields", fields: discoverFields(entities) });
+
+        const conflicts = await detectConflictsAsync(entities, {
+          profile,
+          adjudicator: getConfiguredAdjudicator(),
+          onProgress: (progress) => send({ type: "detect", ...progress }),
+          onWarning: (message) => send({ type: "warning", message }),
+          signal: abortController.signal,
+        });
+
+        send({ type: "result", totalEntities: entities.length, conflicts });
+      } catch (error) {
+        if (abortController.signal.aborted) {
+          console.log("[v0] Analysis cancelled: client disconnected");
+          return;
+        }
+        console.error("[v0] Analysis error:", error);
+        if (error instanceof YextApiError) {
+          send({ type: "error", error: error.message, details: error.details });
+        } else {
+          send({
+            type: "error",
+            error: "Analysis failed",
+            details: error instanceof Error ? error.message : String(error),
+          });
+        }
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+      abortController.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson",
+      "Cache-Control": "no-cache",
+    },
+  });
+}
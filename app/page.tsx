@@ -2,7 +2,7 @@
 
 import type React from "react";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import {
   Card,
   CardContent,
@@ -23,21 +23,52 @@ import {
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { ApiKeyInput } from "@/components/api-key-input";
 import { ConflictResults } from "@/components/conflict-results";
+import { DetectionSettings } from "@/components/detection-settings";
+import {
+  AnalysisProgress,
+  type AnalysisProgressState,
+} from "@/components/analysis-progress";
 import {
-  detectConflicts,
   getConflictSummary,
-  type YextEntity,
+  DEFAULT_DETECTION_PROFILE,
   type ConflictGroup,
+  type AnalysisEvent,
+  type DetectionProfile,
+  type DiscoveredField,
 } from "@/lib/conflict-detector";
+import { readAnalysisStream } from "@/lib/analysis-stream";
 
 export default function YextConflictDetector() {
   const [url, setUrl] = useState("");
   const [businessId, setBusinessId] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
+  // Problems that degraded, but did not stop, the last analysis
+  const [warnings, setWarnings] = useState<string[]>([]);
   const [step, setStep] = useState<"url" | "api" | "results">("url");
-  const [entities, setEntities] = useState<YextEntity[]>([]);
+  const [totalEntities, setTotalEntities] = useState(0);
   const [conflicts, setConflicts] = useState<ConflictGroup[]>([]);
+  const [progress, setProgress] = useState<AnalysisProgressState>({});
+  const [isCancelled, setIsCancelled] = useState(false);
+  const [profile, setProfile] = useState<DetectionProfile>(
+    DEFAULT_DETECTION_PROFILE
+  );
+  // Fields found on the account's entities by the last analysis
+  const [discoveredFields, setDiscoveredFields] = useState<DiscoveredField[]>(
+    []
+  );
+  const workerRef = useRef<Worker | null>(null);
+  // Aborts the running server-side analysis when it is left
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop any analysis when leaving the page
+  useEffect(
+    () => () => {
+      workerRef.current?.terminate();
+      abortRef.current?.abort();
+    },
+    []
+  );
 
   const handleUrlSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -85,54 +116,170 @@ export default function YextConflictDetector() {
     }
   };
 
-  const handleApiKeySubmit = async (apiKey: string) => {
+  const stopWorker = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  };
+
+  const handleApiKeySubmit = async (apiKey: string, runInBrowser: boolean) => {
     setIsLoading(true);
     setError("");
+    setWarnings([]);
+    setProgress({});
+    setIsCancelled(false);
+
+    if (runInBrowser) {
+      analyzeInBrowser(apiKey);
+      return;
+    }
+
+    abortRef.current?.abort();
+    const abortController = new AbortController();
+    abortRef.current = abortController;
+    const { signal } = abortController;
 
     try {
-      const response = await fetch("/api/yext/entities", {
+      // Detection runs server-side; the route streams progress as NDJSON
+      const response = await fetch("/api/conflicts/analyze", {
         method: "POST",
+        signal,
         headers: {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
           businessId,
           apiKey,
+          profile,
         }),
       });
 
-      const data = await response.json();
-
       if (!response.ok) {
+        const data = await response.json();
         throw new Error(data.error || "Failed to fetch entities");
       }
 
-      console.log("[v0] Fetched entities:", data.entities.length);
-      setEntities(data.entities);
+      let completed = false;
+      await readAnalysisStream(response, (event) => {
+        // Chunks arriving after the analysis was left are stale
+        if (signal.aborted) return;
+        switch (event.type) {
+          case "fetch":
+            setProgress((prev) => ({ ...prev, fetch: event }));
+            break;
+          case "fields":
+            setDiscoveredFields(event.fields);
+            break;
+          case "detect":
+            setProgress((prev) => ({ ...prev, detect: event }));
+            break;
+          case "warning":
+            setWarnings((prev) => [...prev, event.message]);
+            break;
+          case "result":
+            console.log("[v0] Found conflicts:", event.conflicts.length);
+            setTotalEntities(event.totalEntities);
+            setConflicts(event.conflicts);
+            completed = true;
+            break;
+          case "error":
+            throw new Error(event.error);
+        }
+      });
 
-      console.log("[v0] Running conflict detection...");
-      const detectedConflicts = detectConflicts(data.entities);
-      console.log("[v0] Found conflicts:", detectedConflicts.length);
-      setConflicts(detectedConflicts);
+      if (signal.aborted) return;
+      if (!completed) {
+        throw new Error("Analysis ended before returning results");
+      }
 
       setStep("results");
     } catch (err) {
+      if (signal.aborted) return;
       setError(err instanceof Error ? err.message : "Failed to fetch entities");
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) setIsLoading(false);
     }
   };
 
+  // Fetch and detect inside a Web Worker, rendering conflicts as batches arrive
+  const analyzeInBrowser = (apiKey: string) => {
+    stopWorker();
+    const worker = new Worker(
+      new URL("../lib/conflict-detector.worker.ts", import.meta.url)
+    );
+    workerRef.current = worker;
+
+    setTotalEntities(0);
+    setConflicts([]);
+    setStep("results");
+
+    const fail = (message: string) => {
+      stopWorker();
+      setError(message);
+      setStep("api");
+      setIsLoading(false);
+    };
+
+    worker.onmessage = ({ data: event }: MessageEvent<AnalysisEvent>) => {
+      switch (event.type) {
+        case "fetch":
+          setTotalEntities(event.fetched);
+          setProgress((prev) => ({ ...prev, fetch: event }));
+          break;
+        case "fields":
+          setDiscoveredFields(event.fields);
+          break;
+        case "detect":
+          setProgress((prev) => ({ ...prev, detect: event }));
+          break;
+        case "conflicts":
+          setConflicts((prev) => [...prev, ...event.conflicts]);
+          break;
+        case "result":
+          console.log("[v0] Found conflicts:", event.conflicts.length);
+          setTotalEntities(event.totalEntities);
+          setConflicts(event.conflicts);
+          stopWorker();
+          setIsLoading(false);
+          break;
+        case "error":
+          fail(event.error);
+          break;
+      }
+    };
+    // The worker failed to load, or threw outside its own error handling
+    worker.onerror = (event) => {
+      event.preventDefault();
+      fail(event.message || "Browser analysis failed");
+    };
+    worker.onmessageerror = () => {
+      fail("Browser analysis sent a message that could not be read");
+    };
+
+    worker.postMessage({ businessId, apiKey, profile });
+  };
+
+  // Cancel a browser-side analysis, keeping the conflicts found so far
+  const handleCancel = () => {
+    stopWorker();
+    setIsCancelled(true);
+    setIsLoading(false);
+  };
+
   const handleBack = () => {
+    abortRef.current?.abort();
+    stopWorker();
+    setIsLoading(false);
     if (step === "api") {
       setStep("url");
       setBusinessId("");
+      setDiscoveredFields([]);
     } else if (step === "results") {
       setStep("api");
-      setEntities([]);
+      setTotalEntities(0);
       setConflicts([]);
     }
     setError("");
+    setWarnings([]);
   };
 
   const handleExportReport = () => {
@@ -142,19 +289,25 @@ export default function YextConflictDetector() {
     const report = {
       businessId,
       analysisDate: new Date().toISOString(),
-      totalEntities: entities.length,
+      totalEntities,
       summary: conflictSummary,
       conflicts: conflicts.map((conflict) => ({
         id: conflict.id,
         title: conflict.title,
+        score: conflict.score,
         severity: conflict.severity,
         entities: conflict.entities,
         conflicts: conflict.conflictDetails.map((detail: any) => ({
+          id: detail.id,
           field: detail.field,
+          ruleId: detail.ruleId,
           conflictType: detail.conflictType,
           severity: detail.severity,
+          confidence: detail.confidence,
           description: detail.description,
           values: detail.values,
+          evidence: detail.evidence,
+          adjudication: detail.adjudication,
         })),
       })),
     };
@@ -207,7 +360,7 @@ export default function YextConflictDetector() {
                     "Identify data discrepancies in your knowledge graph"}
                   {step === "api" && `Business ID: ${businessId}`}
                   {step === "results" &&
-                    `Analyzed ${entities.length} entities${
+                    `Analyzed ${totalEntities} entities${
                       conflictSummary
                         ? ` - Found ${conflictSummary.totalConflicts} conflicts`
                         : " - No conflicts detected"
@@ -236,6 +389,13 @@ export default function YextConflictDetector() {
             </Alert>
           )}
 
+          {warnings.map((warning) => (
+            <Alert key={warning}>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{warning}</AlertDescription>
+            </Alert>
+          ))}
+
           {step === "url" && (
             <div className="max-w-2xl mx-auto space-y-6">
               {/* Introduction Card */}
@@ -340,22 +500,33 @@ export default function YextConflictDetector() {
           )}
 
           {step === "api" && (
-            <div className="max-w-2xl mx-auto">
+            <div className="max-w-2xl mx-auto space-y-6">
               <ApiKeyInput
                 onApiKeySubmit={handleApiKeySubmit}
                 isLoading={isLoading}
               />
+              <DetectionSettings
+                profile={profile}
+                onProfileChange={setProfile}
+                discoveredFields={discoveredFields}
+              />
+              {isLoading && <AnalysisProgress progress={progress} />}
             </div>
           )}
 
           {step === "results" && (
             <>
+              {isLoading && (
+                <AnalysisProgress progress={progress} onCancel={handleCancel} />
+              )}
+
               <Card>
                 <CardHeader>
                   <CardTitle>Conflict Analysis Summary</CardTitle>
                   <CardDescription>
-                    Analysis of {entities.length} entities from your knowledge
+                    Analysis of {totalEntities} entities from your knowledge
                     graph
+                    {isCancelled && " (cancelled - partial results)"}
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
@@ -398,7 +569,7 @@ export default function YextConflictDetector() {
 
               <ConflictResults
                 conflicts={conflicts}
-                totalEntities={entities.length}
+                totalEntities={totalEntities}
               />
             </>
           )}
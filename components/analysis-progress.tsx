@@ -0,0 +1,103 @@
+"use client";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import type { DetectionProgress } from "@/lib/types";
+
+export interface AnalysisProgressState {
+  fetch?: { page: number; fetched: number; total: number };
+  detect?: DetectionProgress;
+}
+
+interface AnalysisProgressProps {
+  progress: AnalysisProgressState;
+  // Shown as a cancel button when the analysis can be stopped
+  onCancel?: () => void;
+}
+
+// Fetching counts for the first half of the bar, detection for the second
+function getPercent({ fetch, detect }: AnalysisProgressState): number {
+  if (detect) {
+    return (
+      50 +
+      (detect.totalEntityTypes > 0
+        ? (detect.entityTypesProcessed / detect.totalEntityTypes) * 50
+        : 50)
+    );
+  }
+  if (fetch && fetch.total > 0) {
+    return Math.min(fetch.fetched / fetch.total, 1) * 50;
+  }
+  return 0;
+}
+
+export function AnalysisProgress({
+  progress,
+  onCancel,
+}: AnalysisProgressProps) {
+  const { fetch, detect } = progress;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Analyzing Knowledge Graph</CardTitle>
+            <CardDescription>
+              {detect
+                ? `Detecting conflicts in ${detect.entityType} entities`
+                : "Fetching entities from Yext"}
+            </CardDescription>
+          </div>
+          {onCancel && (
+            <Button variant="outline" size="sm" onClick={onCancel}>
+              Cancel
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Progress value={getPercent(progress)} />
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+          <div>
+            <div className="text-lg font-semibold">
+              {fetch ? `${fetch.fetched}/${fetch.total}` : "-"}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              Entities Fetched ({fetch?.page || 0} pages)
+            </div>
+          </div>
+          <div>
+            <div className="text-lg font-semibold">
+              {detect
+                ? `${detect.entityTypesProcessed}/${detect.totalEntityTypes}`
+                : "-"}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              Entity Types Processed
+            </div>
+          </div>
+          <div>
+            <div className="text-lg font-semibold">
+              {detect?.pairsCompared || 0}
+            </div>
+            <div className="text-xs text-muted-foreground">Pairs Compared</div>
+          </div>
+          <div>
+            <div className="text-lg font-semibold">
+              {detect?.conflictsFound || 0}
+            </div>
+            <div className="text-xs text-muted-foreground">Conflicts Found</div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,6 +6,7 @@ import { useState } from "react";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
 import {
   Card,
   CardContent,
@@ -17,18 +18,19 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Eye, EyeOff, Key, ExternalLink } from "lucide-react";
 
 interface ApiKeyInputProps {
-  onApiKeySubmit: (apiKey: string) => void;
+  onApiKeySubmit: (apiKey: string, runInBrowser: boolean) => void;
   isLoading: boolean;
 }
 
 export function ApiKeyInput({ onApiKeySubmit, isLoading }: ApiKeyInputProps) {
   const [apiKey, setApiKey] = useState("");
   const [showApiKey, setShowApiKey] = useState(false);
+  const [runInBrowser, setRunInBrowser] = useState(false);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (apiKey.trim()) {
-      onApiKeySubmit(apiKey.trim());
+      onApiKeySubmit(apiKey.trim(), runInBrowser);
     }
   };
 
@@ -72,6 +74,22 @@ export function ApiKeyInput({ onApiKeySubmit, isLoading }: ApiKeyInputProps) {
             </div>
           </div>
 
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="runInBrowser">Run analysis in this browser</Label>
+              <p className="text-xs text-muted-foreground">
+                Fetch entities and detect conflicts in a background worker so
+                your API key is never sent to our server. Conflicts appear as
+                they are found and the analysis can be cancelled.
+              </p>
+            </div>
+            <Switch
+              id="runInBrowser"
+              checked={runInBrowser}
+              onCheckedChange={setRunInBrowser}
+            />
+          </div>
+
           <Alert>
             <AlertDescription>
               <div className="space-y-2">
@@ -20,6 +20,7 @@ import {
   AlertTriangle,
   ChevronDown,
   ChevronRight,
+  Clock,
   Copy,
   ExternalLink,
   Phone,
@@ -28,7 +29,12 @@ import {
   Users,
   FileText,
 } from "lucide-react";
-import type { ConflictGroup, ConflictDetail } from "@/lib/types";
+import type {
+  ConflictGroup,
+  ConflictDetail,
+  ContradictionEvidence,
+  TextSpan,
+} from "@/lib/types";
 
 interface ConflictResultsProps {
   conflicts: ConflictGroup[];
@@ -46,6 +52,10 @@ function getSeverityColor(severity: "high" | "medium" | "low") {
   }
 }
 
+function formatScore(score: number) {
+  return `${Math.round(score * 100)}%`;
+}
+
 function getSeverityIcon(severity: "high" | "medium" | "low") {
   return <AlertTriangle className="w-4 h-4" />;
 }
@@ -58,10 +68,32 @@ function getConflictTypeLabel(type: ConflictDetail["conflictType"]) {
       return "Similar Addresses";
     case "phone_mismatch":
       return "Phone Conflicts";
+    case "invalid_phone":
+      return "Invalid Phone Numbers";
+    case "url_mismatch":
+      return "Website Conflicts";
+    case "url_domain_mismatch":
+      return "Off-Domain Websites";
+    case "address_mismatch":
+      return "Address Conflicts";
+    case "hours_mismatch":
+      return "Hours Conflicts";
+    case "geocode_mismatch":
+      return "Coordinate Conflicts";
+    case "locale_mismatch":
+      return "Cross-Locale Conflicts";
     case "inconsistent_data":
       return "Data Inconsistency";
-    case "faq_answer_conflict":
-      return "FAQ Answer Conflicts";
+    case "faq_answer_contradiction":
+      return "FAQ Answer Contradictions";
+    case "faq_answer_divergent":
+      return "Divergent FAQ Answers";
+    case "faq_answer_superset":
+      return "Incomplete FAQ Answers";
+    case "faq_answer_reworded":
+      return "Reworded FAQ Answers";
+    case "cross_type_contradiction":
+      return "FAQ vs Other Content Contradictions";
     case "body_content_conflict":
       return "Body Content Conflicts";
     case "content_conflict":
@@ -74,6 +106,12 @@ function getConflictTypeLabel(type: ConflictDetail["conflictType"]) {
       return "Content Contradictions";
     case "description_contradiction":
       return "Description Contradictions";
+    case "field_mismatch":
+      return "Custom Field Conflicts";
+    case "field_conflict":
+      return "Custom Field Content Conflicts";
+    case "field_contradiction":
+      return "Custom Field Contradictions";
     default:
       return "Content Conflicts";
   }
@@ -85,6 +123,10 @@ function getFieldIcon(field: string) {
       return <Phone className="w-4 h-4" />;
     case "address":
       return <MapPin className="w-4 h-4" />;
+    case "geocodedCoordinate":
+      return <MapPin className="w-4 h-4" />;
+    case "hours":
+      return <Clock className="w-4 h-4" />;
     case "websiteUrl":
       return <Globe className="w-4 h-4" />;
     case "name":
@@ -102,6 +144,98 @@ function getFieldIcon(field: string) {
   }
 }
 
+// Render text with the given spans wrapped in <mark>; the selected span is emphasized
+function HighlightedText({
+  text,
+  spans,
+  selected,
+}: {
+  text: string;
+  spans: TextSpan[];
+  selected?: TextSpan;
+}) {
+  const sorted = [...spans].sort((a, b) => a.start - b.start);
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  sorted.forEach((span, index) => {
+    // Overlapping spans are merged into the one already rendered
+    if (span.start < position) return;
+    parts.push(text.substring(position, span.start));
+    const isSelected =
+      selected?.start === span.start && selected?.end === span.end;
+    parts.push(
+      <mark
+        key={index}
+        className={
+          isSelected
+            ? "bg-destructive text-destructive-foreground rounded px-0.5"
+            : "bg-warning/40 rounded px-0.5"
+        }
+      >
+        {text.substring(span.start, span.end)}
+      </mark>
+    );
+    position = span.end;
+  });
+  parts.push(text.substring(position));
+
+  return <>{parts}</>;
+}
+
+function EvidencePanel({
+  conflict,
+  evidence,
+}: {
+  conflict: ConflictDetail;
+  evidence: ContradictionEvidence[];
+}) {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const selected = evidence[selectedIndex];
+
+  return (
+    <div className="space-y-2">
+      <h5 className="text-sm font-medium">Contradiction Evidence:</h5>
+      <div className="flex flex-wrap gap-2">
+        {evidence.map((item, index) => (
+          <Button
+            key={index}
+            variant={index === selectedIndex ? "default" : "outline"}
+            size="sm"
+            onClick={() => setSelectedIndex(index)}
+            className="text-xs h-auto py-1"
+          >
+            <span className="capitalize mr-1">{item.detector}:</span>
+            {item.description}
+          </Button>
+        ))}
+      </div>
+      <div className="grid md:grid-cols-2 gap-2">
+        {conflict.values.slice(0, 2).map((value, index) => (
+          <div key={index} className="p-2 bg-muted rounded space-y-1">
+            <div className="font-medium text-sm">{value.entityName}</div>
+            <div className="text-sm whitespace-pre-wrap max-h-48 overflow-y-auto">
+              <HighlightedText
+                text={value.text || value.value}
+                spans={evidence.map((item) => item.spans[index])}
+                selected={selected?.spans[index]}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+      {selected?.alignment && (
+        <p className="text-xs text-muted-foreground">
+          Found in aligned sentences (
+          {Math.round(selected.alignment.similarity * 100)}% word overlap): "
+          {selected.alignment.sentences[0].text}" vs "
+          {selected.alignment.sentences[1].text}"
+        </p>
+      )}
+    </div>
+  );
+}
+
 function ConflictDetailCard({ conflict }: { conflict: ConflictDetail }) {
   const [copied, setCopied] = useState(false);
 
@@ -124,6 +258,21 @@ function ConflictDetailCard({ conflict }: { conflict: ConflictDetail }) {
             <p className="text-sm text-muted-foreground">
               {conflict.description}
             </p>
+            <p className="text-xs text-muted-foreground font-mono">
+              Rule: {conflict.ruleId} · Confidence:{" "}
+              {formatScore(conflict.confidence)}
+            </p>
+            {conflict.adjudication && (
+              <p className="text-xs text-muted-foreground">
+                <span className="font-mono">
+                  {conflict.adjudication.adjudicator}:{" "}
+                  {conflict.adjudication.label} (
+                  {formatScore(conflict.adjudication.confidence)})
+                </span>
+                {conflict.adjudication.rationale &&
+                  ` · ${conflict.adjudication.rationale}`}
+              </p>
+            )}
           </div>
         </div>
         <Badge className={getSeverityColor(conflict.severity)}>
@@ -166,6 +315,10 @@ function ConflictDetailCard({ conflict }: { conflict: ConflictDetail }) {
           ))}
         </div>
       </div>
+
+      {conflict.evidence && conflict.evidence.length > 0 && (
+        <EvidencePanel conflict={conflict} evidence={conflict.evidence} />
+      )}
     </div>
   );
 }
@@ -197,6 +350,9 @@ function ConflictGroupCard({
                 </div>
               </div>
               <div className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground font-mono">
+                  {formatScore(conflictGroup.score)}
+                </span>
                 <Badge className={getSeverityColor(conflictGroup.severity)}>
                   {conflictGroup.severity.toUpperCase()}
                 </Badge>
@@ -227,7 +383,11 @@ function ConflictGroupCard({
                     <div>
                       <div className="font-medium">{entity.name}</div>
                       <div className="text-sm text-muted-foreground">
-                        {entity.entityType} • ID: {entity.id}
+                        {entity.type} • ID: {entity.id}
+                        {entity.similarity !== undefined &&
+                          ` • Question similarity: ${formatScore(
+                            entity.similarity
+                          )}`}
                       </div>
                     </div>
                     <Button variant="ghost" size="sm">
@@ -300,10 +460,15 @@ export function ConflictResults({
   const [filter, setFilter] = useState<"all" | "high" | "medium" | "low">(
     "all"
   );
+  // Most likely problems first, or the order detection found them in
+  const [sortByScore, setSortByScore] = useState(true);
 
   const filteredConflicts = conflicts.filter(
     (conflict) => filter === "all" || conflict.severity === filter
   );
+  if (sortByScore) {
+    filteredConflicts.sort((a, b) => b.score - a.score);
+  }
 
   const conflictCounts = {
     high: conflicts.filter((c) => c.severity === "high").length,
@@ -382,6 +547,16 @@ export function ConflictResults({
             >
               Low Priority ({conflictCounts.low})
             </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setSortByScore(!sortByScore)}
+              className="ml-auto"
+            >
+              {sortByScore
+                ? "Sorted by confidence"
+                : "Sorted by detection order"}
+            </Button>
           </div>
         </CardContent>
       </Card>
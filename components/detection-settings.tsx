@@ -0,0 +1,454 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { ChevronDown, ChevronRight, Settings } from "lucide-react";
+import { DEFAULT_DETECTION_PROFILE } from "@/lib/detection-profile";
+import type { DetectionProfile, DiscoveredField, FieldKind } from "@/lib/types";
+
+interface DetectionSettingsProps {
+  profile: DetectionProfile;
+  onProfileChange: (profile: DetectionProfile) => void;
+  // Fields found on the account's entities, offered for comparison
+  discoveredFields?: DiscoveredField[];
+}
+
+const FIELD_KIND_LABELS: Record<FieldKind, string> = {
+  text: "Text",
+  richText: "Rich text",
+  phone: "Phone",
+  url: "URL",
+  number: "Number",
+  date: "Date",
+  enum: "Option",
+  list: "List",
+  entityReference: "Entity reference",
+};
+
+function parseList(text: string): string[] {
+  return text
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+// Field priorities are edited as one "entityType: field1, field2" line per type
+function formatFieldPriorities(priorities: Record<string, string[]>): string {
+  return Object.entries(priorities)
+    .map(([entityType, fields]) => `${entityType}: ${fields.join(", ")}`)
+    .join("\n");
+}
+
+function parseFieldPriorities(text: string): Record<string, string[]> {
+  const priorities: Record<string, string[]> = {};
+  for (const line of text.split("\n")) {
+    const [entityType, fields] = line.split(":");
+    if (entityType?.trim() && fields !== undefined) {
+      priorities[entityType.trim()] = parseList(fields);
+    }
+  }
+  return priorities;
+}
+
+// A value between 0 and 1, or null when the text is not a number
+function parseThreshold(text: string): number | null {
+  const value = parseFloat(text);
+  return isNaN(value) ? null : Math.min(Math.max(value, 0), 1);
+}
+
+interface ThresholdInputProps {
+  id: string;
+  value: number;
+  onChange: (value: number) => void;
+  step?: number;
+}
+
+// Keeps the raw text while it is edited, so the input can be cleared or hold
+// a partial number like "0."; the text is validated when the input loses
+// focus, and anything that is not a number reverts to the current value
+function ThresholdInput({
+  id,
+  value,
+  onChange,
+  step = 0.05,
+}: ThresholdInputProps) {
+  const [text, setText] = useState(String(value));
+  // Show values set elsewhere, e.g. by a reset to defaults
+  useEffect(() => setText(String(value)), [value]);
+
+  return (
+    <Input
+      id={id}
+      type="number"
+      min={0}
+      max={1}
+      step={step}
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={() => {
+        const parsed = parseThreshold(text);
+        setText(String(parsed ?? value));
+        if (parsed !== null && parsed !== value) onChange(parsed);
+      }}
+    />
+  );
+}
+
+export function DetectionSettings({
+  profile,
+  onProfileChange,
+  discoveredFields = [],
+}: DetectionSettingsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [fieldFilter, setFieldFilter] = useState("");
+  // Free-text inputs keep their raw text so separators can be typed
+  const [includedText, setIncludedText] = useState(
+    profile.includedEntityTypes.join(", ")
+  );
+  const [excludedText, setExcludedText] = useState(
+    profile.excludedEntityTypes.join(", ")
+  );
+  const [fieldsText, setFieldsText] = useState(
+    formatFieldPriorities(profile.fieldPriorities)
+  );
+
+  const handleReset = () => {
+    setIncludedText(DEFAULT_DETECTION_PROFILE.includedEntityTypes.join(", "));
+    setExcludedText(DEFAULT_DETECTION_PROFILE.excludedEntityTypes.join(", "));
+    setFieldsText(
+      formatFieldPriorities(DEFAULT_DETECTION_PROFILE.fieldPriorities)
+    );
+    onProfileChange(DEFAULT_DETECTION_PROFILE);
+  };
+
+  const isCompared = (discovered: DiscoveredField) =>
+    (profile.comparedFields[discovered.entityType] || []).some(
+      (compared) => compared.field === discovered.field
+    );
+
+  const toggleComparedField = (
+    discovered: DiscoveredField,
+    checked: boolean
+  ) => {
+    const fields = (profile.comparedFields[discovered.entityType] || []).filter(
+      (compared) => compared.field !== discovered.field
+    );
+    onProfileChange({
+      ...profile,
+      comparedFields: {
+        ...profile.comparedFields,
+        [discovered.entityType]: checked
+          ? [...fields, { field: discovered.field, kind: discovered.kind }]
+          : fields,
+      },
+    });
+  };
+
+  const visibleFields = discoveredFields.filter((discovered) =>
+    discovered.field.toLowerCase().includes(fieldFilter.trim().toLowerCase())
+  );
+  const visibleEntityTypes = Array.from(
+    new Set(visibleFields.map((discovered) => discovered.entityType))
+  );
+
+  return (
+    <Card>
+      <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+        <CollapsibleTrigger asChild>
+          <CardHeader className="cursor-pointer hover:bg-muted/50 transition-colors">
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <Settings className="w-5 h-5" />
+                  Detection Settings
+                </CardTitle>
+                <CardDescription>
+                  Thresholds, severity bands, entity types and compared fields
+                </CardDescription>
+              </div>
+              {isOpen ? (
+                <ChevronDown className="w-4 h-4" />
+              ) : (
+                <ChevronRight className="w-4 h-4" />
+              )}
+            </div>
+          </CardHeader>
+        </CollapsibleTrigger>
+
+        <CollapsibleContent>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="nameSimilarityThreshold">
+                  Name similarity threshold
+                </Label>
+                <ThresholdInput
+                  id="nameSimilarityThreshold"
+                  value={profile.nameSimilarityThreshold}
+                  onChange={(nameSimilarityThreshold) =>
+                    onProfileChange({ ...profile, nameSimilarityThreshold })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="contextSimilarityThreshold">
+                  Context similarity threshold
+                </Label>
+                <ThresholdInput
+                  id="contextSimilarityThreshold"
+                  value={profile.contextSimilarityThreshold}
+                  onChange={(contextSimilarityThreshold) =>
+                    onProfileChange({ ...profile, contextSimilarityThreshold })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="questionSimilarityThreshold">
+                  FAQ question similarity
+                </Label>
+                <ThresholdInput
+                  id="questionSimilarityThreshold"
+                  value={profile.questionSimilarityThreshold}
+                  onChange={(questionSimilarityThreshold) =>
+                    onProfileChange({ ...profile, questionSimilarityThreshold })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="quantityTolerance">Quantity tolerance</Label>
+                <ThresholdInput
+                  id="quantityTolerance"
+                  step={0.01}
+                  value={profile.quantityTolerance}
+                  onChange={(quantityTolerance) =>
+                    onProfileChange({ ...profile, quantityTolerance })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="crossTypeSimilarityThreshold">
+                  FAQ topic match in other content
+                </Label>
+                <ThresholdInput
+                  id="crossTypeSimilarityThreshold"
+                  value={profile.crossTypeSimilarityThreshold}
+                  onChange={(crossTypeSimilarityThreshold) =>
+                    onProfileChange({
+                      ...profile,
+                      crossTypeSimilarityThreshold,
+                    })
+                  }
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="highSeverityBand">High severity from</Label>
+                <ThresholdInput
+                  id="highSeverityBand"
+                  value={profile.severityBands.high}
+                  onChange={(high) =>
+                    onProfileChange({
+                      ...profile,
+                      severityBands: { ...profile.severityBands, high },
+                    })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="mediumSeverityBand">Medium severity from</Label>
+                <ThresholdInput
+                  id="mediumSeverityBand"
+                  value={profile.severityBands.medium}
+                  onChange={(medium) =>
+                    onProfileChange({
+                      ...profile,
+                      severityBands: { ...profile.severityBands, medium },
+                    })
+                  }
+                />
+              </div>
+            </div>
+
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="semanticSimilarity">Semantic similarity</Label>
+                <p className="text-xs text-muted-foreground">
+                  Match paraphrased FAQ questions and entity names with a local
+                  embedding model, downloaded on first use. Server-side analysis
+                  only; falls back to lexical matching, with a warning, when the
+                  model is unavailable.
+                </p>
+              </div>
+              <Switch
+                id="semanticSimilarity"
+                checked={profile.semanticSimilarity}
+                onCheckedChange={(checked) =>
+                  onProfileChange({ ...profile, semanticSimilarity: checked })
+                }
+              />
+            </div>
+
+            {profile.semanticSimilarity && (
+              <div className="space-y-2">
+                <Label htmlFor="semanticSimilarityThreshold">
+                  Semantic similarity threshold
+                </Label>
+                <ThresholdInput
+                  id="semanticSimilarityThreshold"
+                  value={profile.semanticSimilarityThreshold}
+                  onChange={(semanticSimilarityThreshold) =>
+                    onProfileChange({ ...profile, semanticSimilarityThreshold })
+                  }
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="includedEntityTypes">Included entity types</Label>
+              <Input
+                id="includedEntityTypes"
+                placeholder="All entity types"
+                value={includedText}
+                onChange={(e) => {
+                  setIncludedText(e.target.value);
+                  onProfileChange({
+                    ...profile,
+                    includedEntityTypes: parseList(e.target.value),
+                  });
+                }}
+                className="font-mono text-sm"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="excludedEntityTypes">Excluded entity types</Label>
+              <Input
+                id="excludedEntityTypes"
+                value={excludedText}
+                onChange={(e) => {
+                  setExcludedText(e.target.value);
+                  onProfileChange({
+                    ...profile,
+                    excludedEntityTypes: parseList(e.target.value),
+                  });
+                }}
+                className="font-mono text-sm"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="fieldPriorities">Compared fields by type</Label>
+              <Textarea
+                id="fieldPriorities"
+                rows={4}
+                value={fieldsText}
+                onChange={(e) => {
+                  setFieldsText(e.target.value);
+                  onProfileChange({
+                    ...profile,
+                    fieldPriorities: parseFieldPriorities(e.target.value),
+                  });
+                }}
+                className="font-mono text-sm"
+              />
+              <p className="text-xs text-muted-foreground">
+                One line per entity type, fields in priority order. Use * for
+                all other types.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="comparedFieldsFilter">
+                Custom field comparison
+              </Label>
+              {discoveredFields.length === 0 ? (
+                <p className="text-xs text-muted-foreground">
+                  Run an analysis to discover the fields of this account&apos;s
+                  entities, then choose which ones to compare.
+                </p>
+              ) : (
+                <>
+                  <Input
+                    id="comparedFieldsFilter"
+                    placeholder="Filter fields, e.g. c_price"
+                    value={fieldFilter}
+                    onChange={(e) => setFieldFilter(e.target.value)}
+                    className="font-mono text-sm"
+                  />
+                  <div className="max-h-72 overflow-y-auto rounded-md border divide-y">
+                    {visibleEntityTypes.map((entityType) => (
+                      <div key={entityType} className="p-3 space-y-2">
+                        <p className="text-sm font-medium">{entityType}</p>
+                        {visibleFields
+                          .filter(
+                            (discovered) => discovered.entityType === entityType
+                          )
+                          .map((discovered) => (
+                            <div
+                              key={discovered.field}
+                              className="flex items-center justify-between gap-4"
+                            >
+                              <div className="min-w-0 space-y-1">
+                                <div className="flex items-center gap-2">
+                                  <span className="font-mono text-sm truncate">
+                                    {discovered.field}
+                                  </span>
+                                  <Badge variant="outline">
+                                    {FIELD_KIND_LABELS[discovered.kind]}
+                                  </Badge>
+                                  <span className="text-xs text-muted-foreground">
+                                    {Math.round(discovered.coverage * 100)}%
+                                  </span>
+                                </div>
+                                <p className="text-xs text-muted-foreground truncate">
+                                  {discovered.examples.join(" · ")}
+                                </p>
+                              </div>
+                              <Switch
+                                checked={isCompared(discovered)}
+                                onCheckedChange={(checked) =>
+                                  toggleComparedField(discovered, checked)
+                                }
+                              />
+                            </div>
+                          ))}
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Compared fields are checked between similarly named entities
+                    and, except text, between language profiles. The percentage
+                    is the share of entities with a value.
+                  </p>
+                </>
+              )}
+            </div>
+
+            <Button variant="outline" size="sm" onClick={handleReset}>
+              Reset to defaults
+            </Button>
+          </CardContent>
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  );
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import {
+  normalizeAddressParts,
+  normalizePostalCode,
+  normalizeCountry,
+  areAddressesEquivalent,
+} from "@/lib/address";
+
+describe("normalizeAddressParts", () => {
+  it("standardizes each part of the address", () => {
+    expect(
+      normalizeAddressParts({
+        line1: "123 North Main Street, Suite 4",
+        city: "Saint Paul",
+        region: "Minnesota",
+        postalCode: "55101-1234",
+        countryCode: "US",
+      })
+    ).toEqual({
+      street: "123 n main st",
+      unit: "# 4",
+      city: "st paul",
+      region: "MN",
+      postalCode: "55101",
+      countryCode: "US",
+    });
+  });
+
+  it("needs a street line", () => {
+    expect(normalizeAddressParts({ city: "Springfield" })).toBeNull();
+  });
+});
+
+describe("normalizePostalCode", () => {
+  it("writes codes in each country's form", () => {
+    expect(normalizePostalCode("sw1a1aa", "GB")).toBe("SW1A 1AA");
+    expect(normalizePostalCode("k1a0b1", "CA")).toBe("K1A 0B1");
+    expect(normalizePostalCode("1234ab", "NL")).toBe("1234 AB");
+    expect(normalizePostalCode("123456789", "")).toBe("12345");
+  });
+});
+
+describe("normalizeCountry", () => {
+  it("maps names and codes to ISO codes", () => {
+    expect(normalizeCountry("United States")).toBe("US");
+    expect(normalizeCountry("de")).toBe("DE");
+    expect(normalizeCountry(undefined)).toBe("");
+  });
+});
+
+describe("areAddressesEquivalent", () => {
+  it("matches the same street written differently in the same city", () => {
+    expect(
+      areAddressesEquivalent(
+        { line1: "123 Main St", city: "Springfield" },
+        { line1: "123 Main Street", city: "springfield", postalCode: "12345" }
+      )
+    ).toBe(true);
+  });
+
+  it("keeps the same street in different cities apart", () => {
+    expect(
+      areAddressesEquivalent(
+        { line1: "123 Main St", city: "Springfield" },
+        { line1: "123 Main Street", city: "Shelbyville" }
+      )
+    ).toBe(false);
+  });
+
+  it("needs a shared city or postal code", () => {
+    expect(
+      areAddressesEquivalent({ line1: "123 Main St" }, { line1: "123 Main St" })
+    ).toBe(false);
+  });
+});
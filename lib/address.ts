@@ -0,0 +1,306 @@
+import type { YextEntity } from "@/lib/types";
+import { normalizeString } from "@/lib/text-utils";
+
+type Address = NonNullable<YextEntity["address"]>;
+
+export interface NormalizedAddress {
+  // House number, street name and suffix, e.g. "123 n main st"
+  street: string;
+  // Secondary unit, e.g. "# 4" or "fl 2"
+  unit: string;
+  city: string;
+  // State/province code when known, otherwise the normalized name
+  region: string;
+  postalCode: string;
+  // ISO 3166-1 alpha-2 code when known
+  countryCode: string;
+}
+
+// USPS standard street suffix abbreviations
+const STREET_SUFFIXES: Record<string, string> = {
+  alley: "aly",
+  avenue: "ave",
+  av: "ave",
+  boulevard: "blvd",
+  circle: "cir",
+  court: "ct",
+  crescent: "cres",
+  drive: "dr",
+  expressway: "expy",
+  freeway: "fwy",
+  highway: "hwy",
+  lane: "ln",
+  parkway: "pkwy",
+  place: "pl",
+  plaza: "plz",
+  road: "rd",
+  square: "sq",
+  street: "st",
+  str: "st",
+  terrace: "ter",
+  trail: "trl",
+  turnpike: "tpke",
+};
+
+// Designators that only say "this is a unit number" are interchangeable,
+// so they all collapse to "#"; floors, buildings and rooms stay distinct
+const UNIT_DESIGNATORS: Record<string, string> = {
+  apartment: "#",
+  apt: "#",
+  suite: "#",
+  ste: "#",
+  unit: "#",
+  no: "#",
+  number: "#",
+  floor: "fl",
+  fl: "fl",
+  building: "bldg",
+  bldg: "bldg",
+  room: "rm",
+  rm: "rm",
+};
+
+const DIRECTIONALS: Record<string, string> = {
+  north: "n",
+  south: "s",
+  east: "e",
+  west: "w",
+  northeast: "ne",
+  northwest: "nw",
+  southeast: "se",
+  southwest: "sw",
+};
+
+const CITY_WORDS: Record<string, string> = {
+  saint: "st",
+  fort: "ft",
+  mount: "mt",
+};
+
+const US_STATES: Record<string, string> = {
+  alabama: "AL",
+  alaska: "AK",
+  arizona: "AZ",
+  arkansas: "AR",
+  california: "CA",
+  colorado: "CO",
+  connecticut: "CT",
+  delaware: "DE",
+  "district of columbia": "DC",
+  florida: "FL",
+  georgia: "GA",
+  hawaii: "HI",
+  idaho: "ID",
+  illinois: "IL",
+  indiana: "IN",
+  iowa: "IA",
+  kansas: "KS",
+  kentucky: "KY",
+  louisiana: "LA",
+  maine: "ME",
+  maryland: "MD",
+  massachusetts: "MA",
+  michigan: "MI",
+  minnesota: "MN",
+  mississippi: "MS",
+  missouri: "MO",
+  montana: "MT",
+  nebraska: "NE",
+  nevada: "NV",
+  "new hampshire": "NH",
+  "new jersey": "NJ",
+  "new mexico": "NM",
+  "new york": "NY",
+  "north carolina": "NC",
+  "north dakota": "ND",
+  ohio: "OH",
+  oklahoma: "OK",
+  oregon: "OR",
+  pennsylvania: "PA",
+  "puerto rico": "PR",
+  "rhode island": "RI",
+  "south carolina": "SC",
+  "south dakota": "SD",
+  tennessee: "TN",
+  texas: "TX",
+  utah: "UT",
+  vermont: "VT",
+  virginia: "VA",
+  washington: "WA",
+  "west virginia": "WV",
+  wisconsin: "WI",
+  wyoming: "WY",
+};
+
+const CA_PROVINCES: Record<string, string> = {
+  alberta: "AB",
+  "british columbia": "BC",
+  manitoba: "MB",
+  "new brunswick": "NB",
+  "newfoundland and labrador": "NL",
+  "northwest territories": "NT",
+  "nova scotia": "NS",
+  nunavut: "NU",
+  ontario: "ON",
+  "prince edward island": "PE",
+  quebec: "QC",
+  saskatchewan: "SK",
+  yukon: "YT",
+};
+
+const COUNTRIES: Record<string, string> = {
+  "united states": "US",
+  "united states of america": "US",
+  usa: "US",
+  canada: "CA",
+  "united kingdom": "GB",
+  uk: "GB",
+  "great britain": "GB",
+  england: "GB",
+  ireland: "IE",
+  australia: "AU",
+  "new zealand": "NZ",
+  germany: "DE",
+  deutschland: "DE",
+  france: "FR",
+  spain: "ES",
+  italy: "IT",
+  netherlands: "NL",
+  mexico: "MX",
+  japan: "JP",
+};
+
+export function normalizeCountry(country: string | undefined): string {
+  if (!country) return "";
+  const normalized = normalizeString(country);
+  if (COUNTRIES[normalized]) return COUNTRIES[normalized];
+  return normalized.length === 2 ? normalized.toUpperCase() : normalized;
+}
+
+function normalizeRegion(region: string | undefined, countryCode: string) {
+  if (!region) return "";
+  const normalized = normalizeString(region);
+  const codes =
+    countryCode === "CA"
+      ? CA_PROVINCES
+      : countryCode === "US" || !countryCode
+      ? US_STATES
+      : {};
+  if (codes[normalized]) return codes[normalized];
+  return normalized.length <= 3 ? normalized.toUpperCase() : normalized;
+}
+
+// Postal codes in each country's canonical form
+export function normalizePostalCode(
+  postalCode: string | undefined,
+  countryCode: string
+): string {
+  if (!postalCode) return "";
+  const compact = postalCode.toUpperCase().replace(/[^A-Z0-9]/g, "");
+
+  switch (countryCode) {
+    case "US":
+      // ZIP+4 is compared on the 5-digit ZIP
+      return compact.substring(0, 5);
+    case "CA":
+    case "GB":
+    case "IE":
+      // Outward/inward codes: "K1A0B1" -> "K1A 0B1", "SW1A1AA" -> "SW1A 1AA"
+      return compact.length > 3
+        ? `${compact.slice(0, -3)} ${compact.slice(-3)}`
+        : compact;
+    case "NL":
+      return compact.replace(/^(\d{4})([A-Z]{2})$/, "$1 $2");
+    default:
+      // Without a country, treat a 9-digit code as US ZIP+4
+      return /^\d{9}$/.test(compact) ? compact.substring(0, 5) : compact;
+  }
+}
+
+// Split "123 Main St., Ste 4" into street and unit, standardizing each token
+function normalizeStreetAndUnit(line: string): {
+  street: string;
+  unit: string;
+} {
+  const tokens = line
+    .toLowerCase()
+    .replace(/#/g, " # ")
+    .replace(/[^\w\s#]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+
+  const street: string[] = [];
+  const unit: string[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const designator = token === "#" ? "#" : UNIT_DESIGNATORS[token];
+    // A designator only starts the unit once the street has a name
+    if (designator && street.length > 1 && i + 1 < tokens.length) {
+      unit.push(designator, ...tokens.slice(i + 1));
+      break;
+    }
+    street.push(STREET_SUFFIXES[token] || DIRECTIONALS[token] || token);
+  }
+
+  return { street: street.join(" "), unit: unit.join(" ") };
+}
+
+export function normalizeAddressParts(
+  address: YextEntity["address"]
+): NormalizedAddress | null {
+  if (!address?.line1) return null;
+
+  const countryCode = normalizeCountry(address.countryCode || address.country);
+  const { street, unit } = normalizeStreetAndUnit(
+    [address.line1, address.line2].filter(Boolean).join(" ")
+  );
+
+  return {
+    street,
+    unit,
+    city: normalizeString(address.city || "")
+      .split(" ")
+      .map((word) => CITY_WORDS[word] || word)
+      .join(" "),
+    region: normalizeRegion(address.region || address.state, countryCode),
+    postalCode: normalizePostalCode(address.postalCode, countryCode),
+    countryCode,
+  };
+}
+
+// Blocking key: street and unit only, so a missing city or postal code on one
+// side does not keep two listings for the same place apart
+export function getAddressKey(address: YextEntity["address"]): string {
+  const normalized = normalizeAddressParts(address);
+  return normalized ? `${normalized.street}|${normalized.unit}` : "";
+}
+
+// Parts present on both sides must agree
+function partsMatch(part1: string, part2: string): boolean {
+  return !part1 || !part2 || part1 === part2;
+}
+
+// Check whether two addresses describe the same place
+export function areAddressesEquivalent(
+  address1: Address | undefined,
+  address2: Address | undefined
+): boolean {
+  const a = normalizeAddressParts(address1);
+  const b = normalizeAddressParts(address2);
+  if (!a || !b) return false;
+
+  // Street alone is ambiguous across towns: require a shared city or postal code
+  const located =
+    (!!a.city && a.city === b.city) ||
+    (!!a.postalCode && a.postalCode === b.postalCode);
+
+  return (
+    a.street === b.street &&
+    a.unit === b.unit &&
+    located &&
+    partsMatch(a.city, b.city) &&
+    partsMatch(a.region, b.region) &&
+    partsMatch(a.postalCode, b.postalCode) &&
+    partsMatch(a.countryCode, b.countryCode)
+  );
+}
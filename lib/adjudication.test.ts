@@ -0,0 +1,126 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { ConflictGroup } from "@/lib/types";
+import {
+  adjudicateConflicts,
+  createOpenAIAdjudicator,
+} from "@/lib/adjudication";
+
+vi.spyOn(console, "log").mockImplementation(() => {});
+vi.spyOn(console, "error").mockImplementation(() => {});
+
+// OpenAI-compatible endpoint that fails for premises mentioning "outage"
+let requests = 0;
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      requests++;
+      const { messages } = JSON.parse(body);
+      if (messages[1].content.includes("outage")) {
+        response.writeHead(500).end();
+        return;
+      }
+      response.writeHead(200, { "Content-Type": "application/json" }).end(
+        JSON.stringify({
+          choices: [
+            {
+              message: {
+                content: JSON.stringify({
+                  label: "Contradiction",
+                  confidence: 1.4,
+                  rationale: "The return windows differ.",
+                }),
+              },
+            },
+          ],
+        })
+      );
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+const conflictBetween = (text1: string, text2: string): ConflictGroup => ({
+  id: "conflict-1",
+  title: "FAQ Conflict",
+  entities: [],
+  score: 0.6,
+  severity: "medium",
+  conflictDetails: [
+    {
+      id: "detail-1",
+      field: "answer",
+      values: [
+        { entityId: "1", entityName: "Returns", value: text1, text: text1 },
+        { entityId: "2", entityName: "Returns", value: text2, text: text2 },
+      ],
+      conflictType: "content_contradiction",
+      severity: "medium",
+      confidence: 0.6,
+      description: "Answers contradict each other",
+      ruleId: "faq_answer_conflict",
+      evidence: [
+        {
+          detector: "quantitative",
+          factType: "time",
+          description: 'time: "30 days" vs "14 days"',
+          spans: [
+            { start: 19, end: 26, text: "30 days" },
+            { start: 19, end: 26, text: "14 days" },
+          ],
+          confidence: 0.6,
+        },
+      ],
+    },
+  ],
+});
+
+describe("createOpenAIAdjudicator", () => {
+  it("stores the parsed verdict and reuses it for identical texts", async () => {
+    const adjudicator = createOpenAIAdjudicator({ baseUrl, model: "test" });
+    const first = conflictBetween(
+      "Returns accepted 30 days after purchase.",
+      "Returns accepted 14 days after purchase."
+    );
+    await adjudicateConflicts([first], adjudicator);
+    expect(first.conflictDetails[0].adjudication).toEqual({
+      label: "contradiction",
+      confidence: 1,
+      rationale: "The return windows differ.",
+      adjudicator: "openai:test",
+    });
+
+    const requestsBefore = requests;
+    const second = conflictBetween(
+      "Returns accepted 30 days after purchase.",
+      "Returns accepted 14 days after purchase."
+    );
+    await adjudicateConflicts([second], adjudicator);
+    expect(requests).toBe(requestsBefore);
+    expect(second.conflictDetails[0].adjudication).toEqual(
+      first.conflictDetails[0].adjudication
+    );
+  });
+
+  it("leaves the finding unchanged when the request fails", async () => {
+    const adjudicator = createOpenAIAdjudicator({ baseUrl, model: "test" });
+    const conflict = conflictBetween(
+      "Returns outage 30 days after purchase.",
+      "Returns outage 14 days after purchase."
+    );
+    const original = structuredClone(conflict);
+    await adjudicateConflicts([conflict], adjudicator);
+    expect(conflict).toEqual(original);
+  });
+});
@@ -0,0 +1,271 @@
+import type {
+  Adjudicator,
+  AdjudicationLabel,
+  AdjudicationVerdict,
+  ConflictGroup,
+  ConflictDetail,
+  TextSpan,
+} from "@/lib/types";
+import { splitSentences } from "@/lib/rich-text";
+
+export interface OpenAIAdjudicatorOptions {
+  // Base URL of an OpenAI-compatible API, e.g. "http://localhost:8080/v1"
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  timeoutMs?: number;
+}
+
+export interface NliAdjudicatorOptions {
+  // Hugging Face id of an NLI cross-encoder with ONNX weights
+  model?: string;
+  // Directory downloaded models are cached in
+  cacheDir?: string;
+}
+
+const LABELS: AdjudicationLabel[] = ["entailment", "contradiction", "neutral"];
+const DEFAULT_NLI_MODEL = "Xenova/nli-deberta-v3-xsmall";
+// transformers.js is loaded at runtime so it stays an optional dependency
+const TRANSFORMERS_MODULE = "@huggingface/transformers";
+const DEFAULT_TIMEOUT_MS = 30000;
+// Longest excerpt of each text sent to an adjudicator
+const MAX_EXCERPT_LENGTH = 1000;
+// Evidence items whose sentences make up the excerpt
+const MAX_EXCERPT_EVIDENCE = 3;
+const CONCURRENCY = 4;
+const MAX_CACHED_VERDICTS = 10000;
+
+type TextClassifier = (
+  input: { text: string; text_pair: string },
+  options: { top_k: null }
+) => Promise<Array<{ label: string; score: number }>>;
+
+const SYSTEM_PROMPT = `You check whether two passages from the same knowledge base contradict each other.
+Treat the first passage as the premise and the second as the hypothesis.
+Reply with a JSON object: {"label": "entailment" | "contradiction" | "neutral", "confidence": number between 0 and 1, "rationale": one sentence}.`;
+
+// Verdicts by content hash, shared across runs
+const verdictCache = new Map<string, AdjudicationVerdict>();
+
+async function hashContent(...parts: string[]): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(parts.join("\u0000"))
+  );
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+function toLabel(label: unknown): AdjudicationLabel | null {
+  const normalized = String(label).toLowerCase();
+  return LABELS.find((known) => known === normalized) || null;
+}
+
+// Chat-completions adjudicator for OpenAI-compatible endpoints (OpenAI, vLLM,
+// llama.cpp server, a local mock)
+export function createOpenAIAdjudicator(
+  options: OpenAIAdjudicatorOptions
+): Adjudicator {
+  const url = `${options.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  return {
+    id: `openai:${options.model}`,
+    async adjudicate(premise, hypothesis) {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(options.apiKey
+            ? { Authorization: `Bearer ${options.apiKey}` }
+            : {}),
+        },
+        body: JSON.stringify({
+          model: options.model,
+          temperature: 0,
+          response_format: { type: "json_object" },
+          messages: [
+            { role: "system", content: SYSTEM_PROMPT },
+            {
+              role: "user",
+              content: `Premise:\n${premise}\n\nHypothesis:\n${hypothesis}`,
+            },
+          ],
+        }),
+        signal: AbortSignal.timeout(options.timeoutMs || DEFAULT_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(
+          `Adjudicator request failed: ${response.status} ${response.statusText}`
+        );
+      }
+
+      const data = await response.json();
+      const verdict = JSON.parse(data.choices?.[0]?.message?.content || "{}");
+      const label = toLabel(verdict.label);
+      if (!label) {
+        throw new Error(
+          `Adjudicator returned an unknown label: ${verdict.label}`
+        );
+      }
+      return {
+        label,
+        confidence: Math.min(Math.max(Number(verdict.confidence) || 0, 0), 1),
+        rationale: String(verdict.rationale || ""),
+      };
+    },
+  };
+}
+
+// Local, CPU-only NLI cross-encoder run with transformers.js (the optional
+// @huggingface/transformers dependency); the model downloads on first use
+export function createNliAdjudicator(
+  options: NliAdjudicatorOptions = {}
+): Adjudicator {
+  const model = options.model || DEFAULT_NLI_MODEL;
+  let classifier: Promise<TextClassifier> | null = null;
+
+  const loadClassifier = () => {
+    if (classifier) return classifier;
+    classifier = (async () => {
+      const transformers = await import(
+        /* webpackIgnore: true */ TRANSFORMERS_MODULE
+      );
+      if (options.cacheDir) transformers.env.cacheDir = options.cacheDir;
+      return (await transformers.pipeline("text-classification", model, {
+        device: "cpu",
+      })) as TextClassifier;
+    })();
+    // Let a failed load be retried on the next call
+    classifier.catch(() => {
+      classifier = null;
+    });
+    return classifier;
+  };
+
+  return {
+    id: `nli:${model}`,
+    async adjudicate(premise, hypothesis) {
+      const classify = await loadClassifier();
+      const scores = await classify(
+        { text: premise, text_pair: hypothesis },
+        { top_k: null }
+      );
+      const best = scores
+        .filter((score) => toLabel(score.label))
+        .sort((a, b) => b.score - a.score)[0];
+      if (!best) throw new Error(`${model} returned no NLI labels`);
+      return {
+        label: toLabel(best.label)!,
+        confidence: best.score,
+        rationale: scores
+          .map(
+            (score) => `${score.label.toLowerCase()} ${score.score.toFixed(2)}`
+          )
+          .join(", "),
+      };
+    },
+  };
+}
+
+// Adjudicator configured through the environment, if any:
+// ADJUDICATOR=nli|openai, ADJUDICATOR_MODEL, ADJUDICATOR_BASE_URL, ADJUDICATOR_API_KEY
+export function getConfiguredAdjudicator(): Adjudicator | undefined {
+  const kind = process.env.ADJUDICATOR;
+  const model = process.env.ADJUDICATOR_MODEL;
+  if (kind === "nli") return createNliAdjudicator({ model });
+  if (kind === "openai" && model && process.env.ADJUDICATOR_BASE_URL) {
+    return createOpenAIAdjudicator({
+      baseUrl: process.env.ADJUDICATOR_BASE_URL,
+      apiKey: process.env.ADJUDICATOR_API_KEY,
+      model,
+    });
+  }
+  return undefined;
+}
+
+// The sentences of a text around its strongest evidence spans
+function getExcerpt(text: string, spans: TextSpan[]): string {
+  const segments = splitSentences(text);
+  const ranges = spans
+    .map((span) => {
+      const around = segments.filter(
+        (segment) => segment.end > span.start && segment.start < span.end
+      );
+      return [
+        Math.min(around[0]?.start ?? span.start, span.start),
+        Math.max(around[around.length - 1]?.end ?? span.end, span.end),
+      ] as [number, number];
+    })
+    .sort((a, b) => a[0] - b[0]);
+
+  const sentences: string[] = [];
+  let covered = 0;
+  for (const [start, end] of ranges) {
+    if (end <= covered) continue;
+    sentences.push(text.substring(Math.max(start, covered), end).trim());
+    covered = end;
+  }
+  return sentences.join(" … ").substring(0, MAX_EXCERPT_LENGTH);
+}
+
+async function adjudicateDetail(
+  detail: ConflictDetail,
+  adjudicator: Adjudicator
+): Promise<void> {
+  const [value1, value2] = detail.values;
+  if (!detail.evidence?.length || !value1?.text || !value2?.text) return;
+
+  const strongest = [...detail.evidence]
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_EXCERPT_EVIDENCE);
+  const premise = getExcerpt(
+    value1.text,
+    strongest.map((item) => item.spans[0])
+  );
+  const hypothesis = getExcerpt(
+    value2.text,
+    strongest.map((item) => item.spans[1])
+  );
+
+  const key = await hashContent(adjudicator.id, premise, hypothesis);
+  let verdict = verdictCache.get(key);
+  if (!verdict) {
+    verdict = await adjudicator.adjudicate(premise, hypothesis);
+    if (verdictCache.size >= MAX_CACHED_VERDICTS) {
+      verdictCache.delete(verdictCache.keys().next().value!);
+    }
+    verdictCache.set(key, verdict);
+  }
+  detail.adjudication = { ...verdict, adjudicator: adjudicator.id };
+}
+
+// Ask the adjudicator about every detail a text contradiction detector
+// flagged, storing its verdict next to the heuristic result. A failed
+// adjudication leaves that detail unchanged.
+export async function adjudicateConflicts(
+  conflicts: ConflictGroup[],
+  adjudicator: Adjudicator
+): Promise<void> {
+  const details = conflicts
+    .flatMap((conflict) => conflict.conflictDetails)
+    .filter((detail) => detail.evidence?.length);
+  if (details.length === 0) return;
+
+  console.log(
+    `[v0] Adjudicating ${details.length} contradictions with ${adjudicator.id}`
+  );
+
+  let next = 0;
+  const work = async () => {
+    while (next < details.length) {
+      const detail = details[next++];
+      try {
+        await adjudicateDetail(detail, adjudicator);
+      } catch (error) {
+        console.error("[v0] Adjudication failed:", error);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: CONCURRENCY }, work));
+}
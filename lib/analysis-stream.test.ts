@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import type { AnalysisEvent } from "@/lib/types";
+import { readAnalysisStream } from "@/lib/analysis-stream";
+
+// A response whose body arrives in the given chunks
+function chunkedResponse(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  return new Response(
+    new ReadableStream({
+      start(controller) {
+        chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+        controller.close();
+      },
+    })
+  );
+}
+
+describe("readAnalysisStream", () => {
+  it("reads events split across chunks", async () => {
+    const events: AnalysisEvent[] = [];
+    await readAnalysisStream(
+      chunkedResponse([
+        '{"type":"fetch","page":1,"fe',
+        'tched":50,"total":100}\n{"type":"result",',
+        '"totalEntities":100,"conflicts":[]}',
+      ]),
+      (event) => events.push(event)
+    );
+    expect(events).toEqual([
+      { type: "fetch", page: 1, fetched: 50, total: 100 },
+      { type: "result", totalEntities: 100, conflicts: [] },
+    ]);
+  });
+
+  it("skips blank lines", async () => {
+    const events: AnalysisEvent[] = [];
+    await readAnalysisStream(
+      chunkedResponse(['\n{"type":"error","error":"Failed"}\n\n']),
+      (event) => events.push(event)
+    );
+    expect(events).toEqual([{ type: "error", error: "Failed" }]);
+  });
+});
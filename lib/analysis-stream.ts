@@ -0,0 +1,30 @@
+import type { AnalysisEvent } from "@/lib/types";
+
+// Read the NDJSON body of /api/conflicts/analyze, calling onEvent per line
+export async function readAnalysisStream(
+  response: Response,
+  onEvent: (event: AnalysisEvent) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error("Analysis response has no body");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+
+    for (const line of lines) {
+      if (line.trim()) onEvent(JSON.parse(line));
+    }
+  }
+
+  if (buffer.trim()) onEvent(JSON.parse(buffer));
+}
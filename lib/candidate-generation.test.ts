@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import type { YextEntity } from "@/lib/types";
+import { generateCandidatePairs } from "@/lib/candidate-generation";
+
+const named = (...names: string[]): YextEntity[] =>
+  names.map((name, i) => ({ id: String(i), name }));
+
+describe("generateCandidatePairs", () => {
+  it("pairs entities with similar names", () => {
+    const { pairs, stats } = generateCandidatePairs(
+      named("Return Policy", "Returns Policy", "Store Hours")
+    );
+    expect(pairs).toEqual([[0, 1]]);
+    expect(stats).toEqual({
+      entities: 3,
+      totalPairs: 3,
+      candidatePairs: 1,
+      skippedBlocks: 0,
+    });
+  });
+
+  it("pairs entities sharing an exact key", () => {
+    const { pairs } = generateCandidatePairs(named("Alpha", "Beta", "Gamma"), {
+      exactKeys: (entity) => (entity.id === "1" ? [] : ["phone:5551234567"]),
+    });
+    expect(pairs).toEqual([[0, 2]]);
+  });
+
+  it("skips name trigrams shared by too many entities", () => {
+    const { pairs, stats } = generateCandidatePairs(
+      named("Cafe", "Cafe", "Cafe", "Cafe"),
+      { maxBlockSize: 3 }
+    );
+    expect(pairs).toEqual([]);
+    expect(stats.skippedBlocks).toBeGreaterThan(0);
+  });
+
+  it("returns exact keys shared by too many entities as blocks", () => {
+    const { pairs, blocks } = generateCandidatePairs(
+      named("A", "B", "C", "D"),
+      {
+        maxBlockSize: 3,
+        nameBlocking: false,
+        exactKeys: (entity) => ["shared", `own:${entity.id}`],
+      }
+    );
+    expect(pairs).toEqual([]);
+    expect(blocks).toEqual([{ key: "shared", members: [0, 1, 2, 3] }]);
+  });
+});
@@ -0,0 +1,219 @@
+import type { YextEntity, BlockingStats } from "@/lib/types";
+import { normalizeString } from "@/lib/text-utils";
+import { cosineSimilarity } from "@/lib/similarity";
+
+export interface CandidateGenerationOptions {
+  // Minimum Dice overlap of name trigrams for a pair to become a candidate
+  minNameOverlap?: number;
+  // Name trigram blocks larger than this are skipped as uninformative; exact
+  // keys shared by more entities are returned as blocks instead of pairs
+  maxBlockSize?: number;
+  // Pair similarly named entities; off when no rule looks at name similarity
+  nameBlocking?: boolean;
+  // Extra exact-match keys per entity (e.g. normalized phone); sharing one makes a pair a candidate
+  exactKeys?: (entity: YextEntity) => string[];
+  // Name embeddings per entity; pairs at least minEmbeddingSimilarity apart
+  // (cosine) become candidates even when their names share no trigrams
+  embeddings?: Array<number[] | undefined>;
+  minEmbeddingSimilarity?: number;
+}
+
+const DEFAULT_MIN_NAME_OVERLAP = 0.2;
+const DEFAULT_MAX_BLOCK_SIZE = 500;
+const DEFAULT_MIN_EMBEDDING_SIMILARITY = 0.8;
+
+// Random-hyperplane hashing: each band is a few sign bits of the embedding,
+// and embeddings sharing any band are compared by cosine similarity
+const EMBEDDING_BANDS = 16;
+const EMBEDDING_BAND_BITS = 8;
+
+// Character trigrams of the normalized name, padded so short names still produce keys
+function nameTrigrams(name: string): Set<string> {
+  const padded = `  ${normalizeString(name)} `;
+  const trigrams = new Set<string>();
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    trigrams.add(padded.substring(i, i + 3));
+  }
+  return trigrams;
+}
+
+// Build an inverted index from key to the entity indexes containing it
+function buildIndex(keysByEntity: Array<Iterable<string>>) {
+  const index = new Map<string, number[]>();
+  keysByEntity.forEach((keys, i) => {
+    for (const key of keys) {
+      if (!index.has(key)) index.set(key, []);
+      index.get(key)!.push(i);
+    }
+  });
+  return index;
+}
+
+// Hyperplanes from a fixed seed (mulberry32), so blocking is the same every run
+function createHyperplanes(count: number, dimensions: number): number[][] {
+  let seed = 0x9e3779b9;
+  const random = () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), seed | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296 - 0.5;
+  };
+  return Array.from({ length: count }, () =>
+    Array.from({ length: dimensions }, random)
+  );
+}
+
+function embeddingKeys(embedding: number[], hyperplanes: number[][]): string[] {
+  const bits = hyperplanes
+    .map((plane) =>
+      plane.reduce((sum, weight, i) => sum + weight * embedding[i], 0) >= 0
+        ? "1"
+        : "0"
+    )
+    .join("");
+  return Array.from(
+    { length: EMBEDDING_BANDS },
+    (_, band) =>
+      `${band}:${bits.substring(
+        band * EMBEDDING_BAND_BITS,
+        (band + 1) * EMBEDDING_BAND_BITS
+      )}`
+  );
+}
+
+// Pairs (j < i) of embeddings with cosine similarity of at least
+// minSimilarity, without comparing every pair
+export function findSimilarEmbeddingPairs(
+  embeddings: Array<number[] | undefined>,
+  minSimilarity = DEFAULT_MIN_EMBEDDING_SIMILARITY,
+  maxBlockSize = DEFAULT_MAX_BLOCK_SIZE
+): Array<[number, number]> {
+  const dimensions = embeddings.find(Boolean)?.length;
+  if (!dimensions) return [];
+
+  const hyperplanes = createHyperplanes(
+    EMBEDDING_BANDS * EMBEDDING_BAND_BITS,
+    dimensions
+  );
+  const index = buildIndex(
+    embeddings.map((embedding) =>
+      embedding ? embeddingKeys(embedding, hyperplanes) : []
+    )
+  );
+
+  const pairs = new Map<string, [number, number]>();
+  for (const postings of index.values()) {
+    if (postings.length > maxBlockSize) continue;
+    for (let a = 0; a < postings.length; a++) {
+      for (let b = 0; b < a; b++) {
+        const [j, i] = [postings[b], postings[a]];
+        const key = `${j}:${i}`;
+        if (
+          !pairs.has(key) &&
+          cosineSimilarity(embeddings[j]!, embeddings[i]!) >= minSimilarity
+        ) {
+          pairs.set(key, [j, i]);
+        }
+      }
+    }
+  }
+  return Array.from(pairs.values());
+}
+
+// Generate the pairs (by index into entities) worth running pairwise rules on,
+// instead of comparing every pair in the group
+export function generateCandidatePairs(
+  entities: YextEntity[],
+  options: CandidateGenerationOptions = {}
+): {
+  pairs: Array<[number, number]>;
+  // Exact keys shared too widely to pair, for rules to compare as one group
+  blocks: Array<{ key: string; members: number[] }>;
+  stats: Omit<BlockingStats, "entityType">;
+} {
+  const minNameOverlap = options.minNameOverlap ?? DEFAULT_MIN_NAME_OVERLAP;
+  const maxBlockSize = options.maxBlockSize ?? DEFAULT_MAX_BLOCK_SIZE;
+
+  const trigramsByEntity = entities.map((e) =>
+    options.nameBlocking === false
+      ? new Set<string>()
+      : nameTrigrams(e.name || "")
+  );
+  const exactKeysByEntity = entities.map((e) =>
+    options.exactKeys ? options.exactKeys(e) : []
+  );
+
+  const trigramIndex = buildIndex(trigramsByEntity);
+  const exactIndex = buildIndex(exactKeysByEntity);
+
+  // Semantically similar names, keyed by the later entity of each pair
+  const embeddingNeighbours = new Map<number, number[]>();
+  if (options.embeddings) {
+    for (const [j, i] of findSimilarEmbeddingPairs(
+      options.embeddings,
+      options.minEmbeddingSimilarity,
+      maxBlockSize
+    )) {
+      if (!embeddingNeighbours.has(i)) embeddingNeighbours.set(i, []);
+      embeddingNeighbours.get(i)!.push(j);
+    }
+  }
+
+  const pairs: Array<[number, number]> = [];
+
+  for (let i = 0; i < entities.length; i++) {
+    // Count shared trigrams with every earlier entity in a common block
+    const shared = new Map<number, number>();
+    for (const trigram of trigramsByEntity[i]) {
+      const postings = trigramIndex.get(trigram)!;
+      if (postings.length > maxBlockSize) continue;
+      for (const j of postings) {
+        if (j >= i) break;
+        shared.set(j, (shared.get(j) || 0) + 1);
+      }
+    }
+
+    const candidates = new Set<number>();
+    for (const [j, count] of shared) {
+      const dice =
+        (2 * count) / (trigramsByEntity[i].size + trigramsByEntity[j].size);
+      if (dice >= minNameOverlap) candidates.add(j);
+    }
+
+    // Exact keys are precise, but a key on thousands of entities would be
+    // quadratic to pair, so oversized ones go to blocks instead
+    for (const key of exactKeysByEntity[i]) {
+      const postings = exactIndex.get(key)!;
+      if (postings.length > maxBlockSize) continue;
+      for (const j of postings) {
+        if (j >= i) break;
+        candidates.add(j);
+      }
+    }
+
+    for (const j of embeddingNeighbours.get(i) || []) {
+      candidates.add(j);
+    }
+
+    for (const j of candidates) {
+      pairs.push([j, i]);
+    }
+  }
+
+  const blocks = Array.from(exactIndex.entries())
+    .filter(([, members]) => members.length > maxBlockSize)
+    .map(([key, members]) => ({ key, members }));
+
+  return {
+    pairs,
+    blocks,
+    stats: {
+      entities: entities.length,
+      totalPairs: (entities.length * (entities.length - 1)) / 2,
+      candidatePairs: pairs.length,
+      skippedBlocks: Array.from(trigramIndex.values()).filter(
+        (postings) => postings.length > maxBlockSize
+      ).length,
+    },
+  };
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { extractClaims, areClaimsContradictory } from "@/lib/clauses";
+
+describe("extractClaims", () => {
+  it("reads negation in the verb group and in the predicate alike", () => {
+    for (const text of [
+      "The product is not available.",
+      "The product is unavailable.",
+    ]) {
+      expect(extractClaims(text)).toMatchObject([
+        { subject: ["product"], predicate: "available", polarity: false },
+      ]);
+    }
+  });
+
+  it("reads a leading yes or no as an answer", () => {
+    expect(extractClaims("No, you cannot.")).toMatchObject([
+      { subject: [], predicate: "answer", polarity: false, text: "No" },
+    ]);
+  });
+
+  it("does not read modifiers as claims", () => {
+    expect(extractClaims("Use the right-hand menu.")).toEqual([]);
+  });
+});
+
+describe("areClaimsContradictory", () => {
+  it("compares claims about the same subject", () => {
+    const [unavailable] = extractClaims("The product is not available.");
+    const [available] = extractClaims("The product is available now.");
+    const [other] = extractClaims("The service is available.");
+    expect(areClaimsContradictory(unavailable, available)).toBe(true);
+    expect(areClaimsContradictory(unavailable, other)).toBe(false);
+  });
+});
@@ -0,0 +1,342 @@
+// Clause-level claim extraction: finds "<subject> is [not] <predicate>" style
+// statements, resolving negation within the verb group so that "is not
+// available" and "is unavailable" are the same claim, and words such as
+// "right" in "right-hand menu" are not read as claims at all
+
+export interface Claim {
+  // Content words of the subject; empty for pronouns and yes/no answers
+  subject: string[];
+  // Canonical predicate, e.g. "available" for "unavailable"
+  predicate: string;
+  // False when the clause denies the predicate
+  polarity: boolean;
+  // Character range of the verb group and predicate in the source text
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+// Predicate words mapped to [canonical predicate, polarity]
+const PREDICATES: Record<string, [string, boolean]> = {
+  available: ["available", true],
+  unavailable: ["available", false],
+  present: ["present", true],
+  absent: ["present", false],
+  true: ["true", true],
+  correct: ["true", true],
+  right: ["true", true],
+  accurate: ["true", true],
+  false: ["true", false],
+  incorrect: ["true", false],
+  wrong: ["true", false],
+  inaccurate: ["true", false],
+  open: ["open", true],
+  closed: ["open", false],
+  allowed: ["allowed", true],
+  permitted: ["allowed", true],
+  prohibited: ["allowed", false],
+  forbidden: ["allowed", false],
+  banned: ["allowed", false],
+  required: ["required", true],
+  mandatory: ["required", true],
+  optional: ["required", false],
+  included: ["included", true],
+  excluded: ["included", false],
+  supported: ["supported", true],
+  unsupported: ["supported", false],
+  enabled: ["enabled", true],
+  disabled: ["enabled", false],
+  possible: ["possible", true],
+  impossible: ["possible", false],
+  refundable: ["refundable", true],
+  nonrefundable: ["refundable", false],
+  found: ["found", true],
+};
+
+// Verbs that are claims on their own, without a copula
+const VERB_PREDICATES: Record<string, string> = {
+  exist: "exists",
+  exists: "exists",
+  existed: "exists",
+};
+
+const COPULAS = new Set([
+  "is",
+  "are",
+  "was",
+  "were",
+  "be",
+  "been",
+  "being",
+  "remain",
+  "remains",
+  "remained",
+  "stay",
+  "stays",
+  "stayed",
+  "become",
+  "becomes",
+  "became",
+  "seem",
+  "seems",
+]);
+
+// Auxiliaries that carry the negation themselves ("isnt" once normalized)
+const NEGATED_AUXILIARIES = new Set([
+  "isnt",
+  "arent",
+  "wasnt",
+  "werent",
+  "doesnt",
+  "dont",
+  "didnt",
+  "cant",
+  "cannot",
+  "wont",
+  "wouldnt",
+  "shouldnt",
+  "hasnt",
+  "havent",
+  "hadnt",
+]);
+
+const NEGATED_COPULAS = new Set(["isnt", "arent", "wasnt", "werent"]);
+
+const AUXILIARIES = new Set([
+  "do",
+  "does",
+  "did",
+  "can",
+  "could",
+  "will",
+  "would",
+  "shall",
+  "should",
+  "may",
+  "might",
+  "must",
+  "has",
+  "have",
+  "had",
+]);
+
+const NEGATORS = new Set(["not", "never"]);
+
+// Words allowed between the copula and the predicate
+const MODIFIERS = new Set([
+  "currently",
+  "still",
+  "always",
+  "also",
+  "now",
+  "fully",
+  "generally",
+  "usually",
+  "only",
+  "temporarily",
+  "permanently",
+  "yet",
+  "then",
+]);
+
+// Words that end a clause; commas are handled as punctuation tokens
+const CLAUSE_BREAKS = new Set([
+  "and",
+  "or",
+  "so",
+  "because",
+  "but",
+  "however",
+  "although",
+  "though",
+  "whereas",
+  "while",
+  "unless",
+  "except",
+]);
+
+const PRONOUNS = new Set([
+  "it",
+  "this",
+  "that",
+  "these",
+  "those",
+  "they",
+  "he",
+  "she",
+  "we",
+  "you",
+  "there",
+]);
+
+const SUBJECT_STOPWORDS = new Set([
+  "the",
+  "a",
+  "an",
+  "our",
+  "your",
+  "their",
+  "its",
+  "my",
+  "of",
+  "for",
+  "and",
+  "or",
+  "to",
+  "in",
+  "on",
+  "at",
+  "with",
+  "all",
+  "any",
+  "some",
+  "so",
+  "yes",
+  "no",
+]);
+
+// Words (with apostrophes dropped, "isn't" -> "isnt") and punctuation, with offsets
+function tokenize(text: string): Token[] {
+  return Array.from(text.matchAll(/[A-Za-z0-9'’]+|[.!?;:,]/g), (match) => ({
+    word: match[0].toLowerCase().replace(/['’]/g, ""),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+}
+
+function splitClauses(tokens: Token[]): Token[][] {
+  const clauses: Token[][] = [[]];
+  for (const token of tokens) {
+    if (/^[.!?;:,]$/.test(token.word) || CLAUSE_BREAKS.has(token.word)) {
+      if (clauses[clauses.length - 1].length > 0) clauses.push([]);
+    } else {
+      clauses[clauses.length - 1].push(token);
+    }
+  }
+  return clauses.filter((clause) => clause.length > 0);
+}
+
+function isNegation(tokens: Token[], index: number): boolean {
+  const word = tokens[index].word;
+  // "no longer" negates, a bare "no" before a noun does not
+  return (
+    NEGATORS.has(word) ||
+    NEGATED_AUXILIARIES.has(word) ||
+    (word === "no" && tokens[index + 1]?.word === "longer")
+  );
+}
+
+function getSubject(tokens: Token[]): string[] {
+  const words = tokens
+    .map((token) => token.word)
+    .filter((word) => !SUBJECT_STOPWORDS.has(word));
+  if (words.length === 0 || words.every((word) => PRONOUNS.has(word))) {
+    return [];
+  }
+  // The head of the noun phrase is at its end
+  return words.filter((word) => !PRONOUNS.has(word)).slice(-3);
+}
+
+// Find the claim whose predicate is at tokens[index], if it is one
+function readClaim(
+  source: string,
+  clause: Token[],
+  index: number
+): Claim | null {
+  const word = clause[index].word;
+  const verbPredicate = VERB_PREDICATES[word];
+  const predicate = PREDICATES[word];
+  if (!verbPredicate && !predicate) return null;
+
+  // Walk back over the verb group: modifiers, negators, auxiliaries and
+  // (for adjective predicates) the copula that makes the word a predicate
+  let groupStart = index;
+  let negations = 0;
+  let hasCopula = false;
+  for (let i = index - 1; i >= 0 && index - i <= 5; i--) {
+    const previous = clause[i].word;
+    if (isNegation(clause, i)) {
+      negations++;
+      hasCopula = hasCopula || NEGATED_COPULAS.has(previous);
+    } else if (COPULAS.has(previous)) {
+      hasCopula = true;
+    } else if (
+      !AUXILIARIES.has(previous) &&
+      !MODIFIERS.has(previous) &&
+      previous !== "longer"
+    ) {
+      break;
+    }
+    groupStart = i;
+  }
+
+  // Adjectives are only claims in predicate position ("is available")
+  if (!verbPredicate && !hasCopula) return null;
+
+  const [canonical, basePolarity] = verbPredicate
+    ? [verbPredicate, true]
+    : predicate;
+  const start = clause[groupStart].start;
+  const end = clause[index].end;
+
+  return {
+    subject: getSubject(clause.slice(0, groupStart)),
+    predicate: canonical,
+    // Each negation in the verb group flips the polarity
+    polarity: negations % 2 === 0 ? basePolarity : !basePolarity,
+    start,
+    end,
+    text: source.substring(start, end),
+  };
+}
+
+export function extractClaims(text: string): Claim[] {
+  const tokens = tokenize(text);
+  const claims: Claim[] = [];
+
+  // A leading "Yes" or "No" answers the question the text responds to
+  if (
+    (tokens[0]?.word === "yes" || tokens[0]?.word === "no") &&
+    (tokens.length === 1 || /^[.!,;:]$/.test(tokens[1].word))
+  ) {
+    claims.push({
+      subject: [],
+      predicate: "answer",
+      polarity: tokens[0].word === "yes",
+      start: tokens[0].start,
+      end: tokens[0].end,
+      text: text.substring(tokens[0].start, tokens[0].end),
+    });
+  }
+
+  for (const clause of splitClauses(tokens)) {
+    for (let i = 0; i < clause.length; i++) {
+      const claim = readClaim(text, clause, i);
+      if (claim) claims.push(claim);
+    }
+  }
+  return claims;
+}
+
+// Claims about the same subject; subjectless claims (pronouns, yes/no) only
+// pair with each other
+function isSameSubject(subject1: string[], subject2: string[]): boolean {
+  if (subject1.length === 0 || subject2.length === 0) {
+    return subject1.length === subject2.length;
+  }
+  return subject1.some((word) => subject2.includes(word));
+}
+
+export function areClaimsContradictory(claim1: Claim, claim2: Claim): boolean {
+  return (
+    claim1.predicate === claim2.predicate &&
+    claim1.polarity !== claim2.polarity &&
+    isSameSubject(claim1.subject, claim2.subject)
+  );
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it, vi } from "vitest";
+import type { YextEntity } from "@/lib/types";
+import { detectConflictsAsync } from "@/lib/conflict-detector";
+
+vi.spyOn(console, "log").mockImplementation(() => {});
+
+const products: YextEntity[] = ["Blue Mug", "Blue Mugs", "Red Mug"].map(
+  (name, i) => ({
+    id: String(i),
+    name,
+    mainPhone: "555-123-4567",
+    meta: { id: String(i), entityType: "product" },
+  })
+);
+
+describe("detectConflictsAsync", () => {
+  it("reports progress as it runs", async () => {
+    const onProgress = vi.fn();
+    await detectConflictsAsync(products, { onProgress });
+    expect(onProgress).toHaveBeenCalledWith(
+      expect.objectContaining({ entityType: "product" })
+    );
+  });
+
+  it("stops once aborted", async () => {
+    const abortController = new AbortController();
+    const onProgress = vi.fn(() => abortController.abort());
+    await expect(
+      detectConflictsAsync(products, {
+        onProgress,
+        signal: abortController.signal,
+      })
+    ).rejects.toThrow();
+    expect(onProgress).toHaveBeenCalledTimes(1);
+  });
+});
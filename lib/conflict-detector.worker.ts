@@ -0,0 +1,41 @@
+/// <reference lib="webworker" />
+
+// Runs entity fetching and conflict detection off the main thread, so the API
+// key stays in the browser and the UI remains responsive
+import { detectConflicts } from "@/lib/conflict-detector";
+import { fetchAllEntities, YextApiError } from "@/lib/yext-api";
+import { discoverFields } from "@/lib/field-discovery";
+import type { AnalysisEvent, AnalysisRequest } from "@/lib/types";
+
+const worker = self as unknown as DedicatedWorkerGlobalScope;
+
+function post(event: AnalysisEvent) {
+  worker.postMessage(event);
+}
+
+worker.onmessage = async ({ data }: MessageEvent<AnalysisRequest>) => {
+  try {
+    const { entities } = await fetchAllEntities(
+      data.businessId,
+      data.apiKey,
+      (progress) => post({ type: "fetch", ...progress }),
+      { languageProfiles: true }
+    );
+
+    post({ type: "fields", fields: discoverFields(entities) });
+
+    const conflicts = detectConflicts(entities, {
+      profile: data.profile,
+      onProgress: (progress) => post({ type: "detect", ...progress }),
+      onConflicts: (batch) => post({ type: "conflicts", conflicts: batch }),
+    });
+
+    post({ type: "result", totalEntities: entities.length, conflicts });
+  } catch (error) {
+    post({
+      type: "error",
+      error: error instanceof Error ? error.message : "Analysis failed",
+      details: error instanceof YextApiError ? error.details : undefined,
+    });
+  }
+};
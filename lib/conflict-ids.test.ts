@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ConflictDetail, YextEntity } from "@/lib/types";
+import { getConflictGroupId, getConflictDetailId } from "@/lib/conflict-ids";
+import { detectConflicts } from "@/lib/conflict-detector";
+
+vi.spyOn(console, "log").mockImplementation(() => {});
+
+const entity = (id: string, name: string): YextEntity => ({
+  id,
+  name,
+  meta: { id, entityType: "product" },
+  mainPhone: "+1 217-555-0101",
+});
+
+const detail = (ruleId: string, entityIds: string[]): ConflictDetail => ({
+  id: "",
+  field: "mainPhone",
+  values: entityIds.map((entityId) => ({
+    entityId,
+    entityName: entityId,
+    value: "+1 217-555-0101",
+  })),
+  conflictType: "phone_mismatch",
+  severity: "medium",
+  confidence: 0.6,
+  description: "Shared phone",
+  ruleId,
+});
+
+describe("getConflictGroupId", () => {
+  const alpha = entity("1", "Alpha");
+  const beta = entity("2", "Beta");
+  const details = [detail("phone_mismatch", ["1", "2"])];
+
+  it("ignores entity order and names", () => {
+    expect(getConflictGroupId("pair-conflict", [alpha, beta], details)).toBe(
+      getConflictGroupId(
+        "pair-conflict",
+        [{ ...beta, name: "Beta Renamed" }, alpha],
+        details
+      )
+    );
+  });
+
+  it("changes with the member set and the rules", () => {
+    const id = getConflictGroupId("pair-conflict", [alpha, beta], details);
+    expect(
+      getConflictGroupId("pair-conflict", [alpha, entity("3", "Beta")], details)
+    ).not.toBe(id);
+    expect(
+      getConflictGroupId(
+        "pair-conflict",
+        [alpha, beta],
+        [detail("url_mismatch", ["1", "2"])]
+      )
+    ).not.toBe(id);
+  });
+});
+
+describe("getConflictDetailId", () => {
+  it("ignores value order", () => {
+    expect(getConflictDetailId("phone_mismatch", detail("", ["1", "2"]))).toBe(
+      getConflictDetailId("phone_mismatch", detail("", ["2", "1"]))
+    );
+  });
+});
+
+describe("detectConflicts", () => {
+  it("gives the same ids across runs and entity orders", () => {
+    const entities = [
+      entity("1", "Alpha"),
+      entity("2", "Beta"),
+      entity("3", "Gamma"),
+    ];
+    const ids = (list: YextEntity[]) =>
+      detectConflicts(list)
+        .flatMap((conflict) => [
+          conflict.id,
+          ...conflict.conflictDetails.map((item) => item.id),
+        ])
+        .sort();
+
+    const first = ids(entities);
+    expect(first.length).toBeGreaterThan(0);
+    expect(ids(entities)).toEqual(first);
+    expect(ids([...entities].reverse())).toEqual(first);
+  });
+});
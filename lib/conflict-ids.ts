@@ -0,0 +1,59 @@
+import type { YextEntity, RuleFinding, ConflictDetail } from "@/lib/types";
+
+// Deterministic conflict ids, so the same conflict keeps its id across runs
+// and can be tracked, suppressed and diffed between reports
+
+// 64-bit hash (two 32-bit lanes) of the parts, as 16 hex digits
+export function hashParts(parts: string[]): string {
+  const text = parts.join("\u0000");
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return [h2, h1]
+    .map((lane) => (lane >>> 0).toString(16).padStart(8, "0"))
+    .join("");
+}
+
+// Entities are keyed by id; names are only used for entities without one
+function getEntityKey(entity: YextEntity): string {
+  return entity.meta?.id || entity.id || `name:${entity.name || ""}`;
+}
+
+// Id of a conflict group from the detection pass that found it (e.g. "pair",
+// "faq"), its entities and the rules that flagged them, independent of the
+// order and names of the entities
+export function getConflictGroupId(
+  prefix: string,
+  entities: YextEntity[],
+  conflictDetails: ConflictDetail[]
+): string {
+  const keys = Array.from(new Set(entities.map(getEntityKey))).sort();
+  const ruleIds = Array.from(
+    new Set(conflictDetails.map((detail) => detail.ruleId))
+  ).sort();
+  return `${prefix}-${hashParts([prefix, ...keys, "", ...ruleIds])}`;
+}
+
+// Id of a single finding from the rule that emitted it, what it found and the
+// entities whose values it compared
+export function getConflictDetailId(
+  ruleId: string,
+  finding: RuleFinding
+): string {
+  const keys = Array.from(
+    new Set(
+      finding.values.map(
+        (value) => value.entityId || `name:${value.entityName || ""}`
+      )
+    )
+  ).sort();
+  return hashParts([ruleId, finding.conflictType, finding.field, ...keys]);
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from "vitest";
+import type { YextEntity } from "@/lib/types";
+import { faqAnswerConflictRule } from "@/lib/conflict-rules";
+import { DEFAULT_DETECTION_PROFILE } from "@/lib/detection-profile";
+
+vi.spyOn(console, "log").mockImplementation(() => {});
+
+const ANSWER = "You can return items within 30 days of purchase.";
+
+const faq = (id: string, answer: string): YextEntity => ({
+  id,
+  name: "Can I return an item?",
+  answer,
+  meta: { id, entityType: "faq" },
+});
+
+const classify = (answer: string) =>
+  faqAnswerConflictRule
+    .evaluate([faq("1", ANSWER), faq("2", answer)], {
+      entityType: "faq",
+      profile: DEFAULT_DETECTION_PROFILE,
+    })
+    .map((finding) => finding.conflictType);
+
+describe("faqAnswerConflictRule", () => {
+  it("classifies how two answers to one question differ", () => {
+    expect(
+      classify("You can return items within 14 days of purchase.")
+    ).toEqual(["faq_answer_contradiction"]);
+    expect(classify(`${ANSWER} Bring your receipt to any store.`)).toEqual([
+      "faq_answer_superset",
+    ]);
+    expect(
+      classify("Items can be returned within 30 days of purchase.")
+    ).toEqual(["faq_answer_reworded"]);
+    expect(classify("Please contact our support team by email.")).toEqual([
+      "faq_answer_divergent",
+    ]);
+  });
+
+  it("compares identical answers once", () => {
+    expect(classify(ANSWER)).toEqual([]);
+  });
+});
@@ -0,0 +1,476 @@
+import type {
+  YextEntity,
+  ConflictRule,
+  ConflictDetail,
+  DetectionProfile,
+  RuleFinding,
+  ContradictionEvidence,
+} from "@/lib/types";
+import {
+  extractTextContent,
+  normalizeString,
+  calculateWordOverlap,
+  getWordSet,
+} from "@/lib/text-utils";
+import { getPhoneKey, parseEntityPhone } from "@/lib/phone";
+import { canonicalizeUrl, getDomain } from "@/lib/url";
+import { detectSemanticContradictions } from "@/lib/contradictions";
+import type { DateOptions } from "@/lib/dates";
+import { getFieldPriority } from "@/lib/detection-profile";
+import { combineConfidences } from "@/lib/scoring";
+
+// Location entities have dedicated rules (see location-rules.ts)
+export const LOCATION_ENTITY_TYPES = ["location", "ce_location"];
+
+// Build the { entityId, entityName, value } entry used in ConflictDetail.values
+export function toConflictValue(
+  entity: YextEntity,
+  value: string
+): ConflictDetail["values"][number] {
+  return {
+    entityId: entity.meta?.id || entity.id || "unknown",
+    entityName: entity.name || "Unknown Entity",
+    value,
+  };
+}
+
+// Text of the first non-empty field, in the profile's priority order for the type
+export function getEntityContent(entity: YextEntity, fields: string[]): string {
+  for (const field of fields) {
+    const value = (entity as Record<string, unknown>)[field];
+    const text = value ? extractTextContent(value) : "";
+    if (text) return text;
+  }
+  return "";
+}
+
+// Contradiction evidence between two entities' texts, read with the
+// profile's thresholds
+export function findEvidence(
+  entity1: YextEntity,
+  text1: string,
+  entity2: YextEntity,
+  text2: string,
+  profile: DetectionProfile
+) {
+  return detectSemanticContradictions(text1, text2, {
+    contextThreshold: profile.contextSimilarityThreshold,
+    quantityTolerance: profile.quantityTolerance,
+    // Relative dates are read against when each entity was last updated
+    dateOptions: [entity1, entity2].map((entity) => ({
+      referenceDate: entity.meta?.timestamp,
+      language: entity.meta?.language,
+    })) as [DateOptions, DateOptions],
+  });
+}
+
+// The clash most likely to be a real contradiction
+export function getStrongestEvidence(
+  evidence: ContradictionEvidence[]
+): ContradictionEvidence | undefined {
+  return evidence.reduce<ContradictionEvidence | undefined>(
+    (best, item) => (!best || item.confidence > best.confidence ? item : best),
+    undefined
+  );
+}
+
+// Share of the first text's words that also appear in the second
+function getCoverage(words1: Set<string>, words2: Set<string>): number {
+  if (words1.size === 0) return 1;
+  let covered = 0;
+  for (const word of words1) {
+    if (words2.has(word)) covered++;
+  }
+  return covered / words1.size;
+}
+
+// Answers sharing at least this share of their words say the same thing
+const REWORDED_OVERLAP = 0.5;
+// A longer answer containing this share of a shorter one's words extends it
+const SUPERSET_COVERAGE = 0.9;
+
+// Base confidence per outcome, from most to least likely to need fixing;
+// with the default bands they map to high, medium, low and low severity
+const ANSWER_OUTCOMES = {
+  contradictory: { conflictType: "faq_answer_contradiction", confidence: 0.8 },
+  divergent: { conflictType: "faq_answer_divergent", confidence: 0.55 },
+  superset: { conflictType: "faq_answer_superset", confidence: 0.3 },
+  reworded: { conflictType: "faq_answer_reworded", confidence: 0.15 },
+};
+
+// FAQs asking the same question must give the same answer. Each pair of
+// distinct answers is classified as contradictory, one extending the other,
+// reworded or divergent.
+export const faqAnswerConflictRule: ConflictRule = {
+  id: "faq_answer_conflict",
+  name: "FAQ answer conflict",
+  description:
+    "FAQs with the same or a similarly worded question but different answers",
+  entityTypes: ["faq", "ce_faq"],
+  scope: "group",
+  evaluate(faqs, context) {
+    // FAQs by normalized answer, so identical answers are compared once
+    const byAnswer = new Map<string, YextEntity[]>();
+    for (const faq of faqs) {
+      const answer = normalizeString(
+        extractTextContent(faq.answer || faq.description)
+      );
+      if (!answer) continue;
+      if (!byAnswer.has(answer)) byAnswer.set(answer, []);
+      byAnswer.get(answer)!.push(faq);
+    }
+    const groups = Array.from(byAnswer.values());
+    const findings: RuleFinding[] = [];
+
+    for (let i = 0; i < groups.length; i++) {
+      for (let j = i + 1; j < groups.length; j++) {
+        const [faq1, faq2] = [groups[i][0], groups[j][0]];
+        const answer1 = extractTextContent(faq1.answer || faq1.description);
+        const answer2 = extractTextContent(faq2.answer || faq2.description);
+
+        const evidence = findEvidence(
+          faq1,
+          answer1,
+          faq2,
+          answer2,
+          context.profile
+        );
+        const words1 = getWordSet(answer1);
+        const words2 = getWordSet(answer2);
+        const [shorter, longer] =
+          words1.size <= words2.size ? [words1, words2] : [words2, words1];
+
+        let outcome: keyof typeof ANSWER_OUTCOMES;
+        let description: string;
+        if (evidence.length > 0) {
+          outcome = "contradictory";
+          description =
+            "FAQ answers to the same question contradict each other";
+        } else if (
+          longer.size > shorter.size &&
+          getCoverage(shorter, longer) >= SUPERSET_COVERAGE
+        ) {
+          outcome = "superset";
+          description = `One FAQ answer repeats the other and adds ${
+            longer.size - shorter.size
+          } more words`;
+        } else if (calculateWordOverlap(answer1, answer2) >= REWORDED_OVERLAP) {
+          outcome = "reworded";
+          description = "FAQ answers say the same thing in different words";
+        } else {
+          outcome = "divergent";
+          description =
+            "FAQ answers to the same question differ without a detected contradiction";
+        }
+
+        const { conflictType, confidence } = ANSWER_OUTCOMES[outcome];
+        // The first two values are the compared answers, as evidence offsets expect
+        const toAnswerValue = (faq: YextEntity) => {
+          const answer = extractTextContent(faq.answer || faq.description);
+          return {
+            ...toConflictValue(faq, answer.substring(0, 100) + "..."),
+            text: answer,
+          };
+        };
+
+        findings.push({
+          field: "answer",
+          values: [
+            faq1,
+            faq2,
+            ...groups[i].slice(1),
+            ...groups[j].slice(1),
+          ].map(toAnswerValue),
+          conflictType,
+          confidence:
+            evidence.length > 0
+              ? combineConfidences([
+                  confidence,
+                  ...evidence.map((item) => item.confidence),
+                ])
+              : confidence,
+          description,
+          ...(evidence.length > 0 && { evidence }),
+        });
+      }
+    }
+
+    return findings;
+  },
+};
+
+// Similarly named entities should not have different or contradictory content
+export const contentContradictionRule: ConflictRule = {
+  id: "content_contradiction",
+  name: "Content contradiction",
+  description:
+    "Similarly named entities whose body, content or description differ or contradict each other",
+  excludedEntityTypes: LOCATION_ENTITY_TYPES,
+  scope: "pair",
+  usesNameSimilarity: true,
+  evaluate([entity1, entity2], context) {
+    const { profile } = context;
+    const nameSimilarity = context.nameSimilarity ?? 0;
+    if (nameSimilarity <= profile.nameSimilarityThreshold) return [];
+
+    const fields = getFieldPriority(profile, context.entityType);
+    const content1 = getEntityContent(entity1, fields);
+    const content2 = getEntityContent(entity2, fields);
+    if (!content1 || !content2) return [];
+
+    // First check if content is different
+    if (normalizeString(content1) === normalizeString(content2)) return [];
+
+    // Then check for actual contradictions
+    const evidence = findEvidence(
+      entity1,
+      content1,
+      entity2,
+      content2,
+      profile
+    );
+    const hasContradiction = evidence.length > 0;
+
+    // Determine which field has the conflict for better reporting
+    let conflictField = "content";
+    let conflictType = "inconsistent_data";
+
+    if (entity1.body && entity2.body) {
+      conflictField = "body";
+      conflictType = hasContradiction
+        ? "body_content_contradiction"
+        : "body_content_conflict";
+    } else if (entity1.content && entity2.content) {
+      conflictField = "content";
+      conflictType = hasContradiction
+        ? "content_contradiction"
+        : "content_conflict";
+    } else if (entity1.description && entity2.description) {
+      conflictField = "description";
+      conflictType = hasContradiction
+        ? "description_contradiction"
+        : "description_conflict";
+    }
+
+    const similarityPercent = Math.round(nameSimilarity * 100);
+
+    // Contradictions are shown by the aligned sentences of the strongest
+    // clash; differing content by the start of each text
+    const strongest = getStrongestEvidence(evidence);
+    const [value1, value2] = strongest?.alignment
+      ? strongest.alignment.sentences.map((sentence) => sentence.text)
+      : [content1, content2].map(
+          (content) => content.substring(0, 100) + "..."
+        );
+
+    return [
+      {
+        field: conflictField,
+        values: [
+          { ...toConflictValue(entity1, value1), text: content1 },
+          { ...toConflictValue(entity2, value2), text: content2 },
+        ],
+        conflictType,
+        // Without a detected contradiction, differing text is only suspicious
+        // in proportion to how alike the names are
+        confidence: hasContradiction
+          ? combineConfidences(evidence.map((item) => item.confidence))
+          : 0.3 + 0.3 * nameSimilarity,
+        description: hasContradiction
+          ? `${context.entityType} entities with similar names (${similarityPercent}% similar) have contradictory ${conflictField} content`
+          : `${context.entityType} entities with similar names (${similarityPercent}% similar) have different ${conflictField} content`,
+        ...(hasContradiction && { evidence }),
+      },
+    ];
+  },
+};
+
+// An FAQ answer should agree with what other content says about the topic
+export const crossTypeContradictionRule: ConflictRule = {
+  id: "cross_type_contradiction",
+  name: "FAQ contradicting other content",
+  description:
+    "FAQ answers contradicting a passage about the same topic in an entity of another type",
+  entityTypes: ["faq", "ce_faq"],
+  scope: "cross",
+  evaluate([faq, entity], context) {
+    const { passage } = context;
+    const answer = extractTextContent(faq.answer || faq.description);
+    if (!passage || !answer) return [];
+
+    // Other content covers more than the question, so only contradictions
+    // count, not differences
+    const evidence = findEvidence(
+      faq,
+      answer,
+      entity,
+      passage.text,
+      context.profile
+    );
+    if (evidence.length === 0) return [];
+
+    const strongest = getStrongestEvidence(evidence)!;
+    const [value1, value2] = strongest.alignment
+      ? strongest.alignment.sentences.map((sentence) => sentence.text)
+      : strongest.spans.map((span) => span.text);
+    const entityType = entity.meta?.entityType || "unknown";
+    const topicPercent = Math.round(passage.similarity * 100);
+
+    return [
+      {
+        field: "answer",
+        values: [
+          { ...toConflictValue(faq, value1), text: answer },
+          { ...toConflictValue(entity, value2), text: passage.text },
+        ],
+        conflictType: "cross_type_contradiction",
+        confidence: combineConfidences(evidence.map((item) => item.confidence)),
+        description: `FAQ answer contradicts ${entityType} content on the same topic (${topicPercent}% keyword match)`,
+        evidence,
+      },
+    ];
+  },
+};
+
+// Different entities should not share a phone number
+export const phoneMismatchRule: ConflictRule = {
+  id: "phone_mismatch",
+  name: "Shared phone number",
+  description: "Different entities sharing the same main phone number",
+  excludedEntityTypes: LOCATION_ENTITY_TYPES,
+  scope: "pair",
+  blockingKeys: (entity) => {
+    const phone = getPhoneKey(entity);
+    return phone ? [`phone:${phone}`] : [];
+  },
+  evaluate([entity1, entity2]) {
+    const phone = getPhoneKey(entity1);
+    if (!phone || phone !== getPhoneKey(entity2)) return [];
+    if (entity1.name === entity2.name) return [];
+
+    return [
+      {
+        field: "mainPhone",
+        values: [
+          toConflictValue(entity1, entity1.mainPhone!),
+          toConflictValue(entity2, entity2.mainPhone!),
+        ],
+        conflictType: "phone_mismatch",
+        confidence: 0.6,
+        description: "Different entities sharing the same phone number",
+      },
+    ];
+  },
+  evaluateBlock(entities) {
+    if (new Set(entities.map((entity) => entity.name)).size < 2) return [];
+
+    return [
+      {
+        field: "mainPhone",
+        values: entities.map((entity) =>
+          toConflictValue(entity, entity.mainPhone!)
+        ),
+        conflictType: "phone_mismatch",
+        confidence: 0.6,
+        description: `${entities.length} different entities sharing the same phone number`,
+      },
+    ];
+  },
+};
+
+// A main phone that cannot be dialled in the entity's country
+export const invalidPhoneRule: ConflictRule = {
+  id: "invalid_phone",
+  name: "Invalid phone number",
+  description: "Main phone numbers that are not valid for the entity's country",
+  scope: "entity",
+  evaluate([entity]) {
+    const phone = parseEntityPhone(entity);
+    if (!phone || phone.isValid) return [];
+
+    return [
+      {
+        field: "mainPhone",
+        values: [toConflictValue(entity, entity.mainPhone!)],
+        conflictType: "invalid_phone",
+        confidence: 0.4,
+        description: phone.region
+          ? `Phone number is not a valid ${phone.region} number`
+          : "Phone number is not a valid international number",
+      },
+    ];
+  },
+};
+
+// Different entities should not share a website URL
+export const urlMismatchRule: ConflictRule = {
+  id: "url_mismatch",
+  name: "Shared website URL",
+  description: "Different entities sharing the same website URL",
+  excludedEntityTypes: LOCATION_ENTITY_TYPES,
+  scope: "pair",
+  blockingKeys: (entity) =>
+    entity.websiteUrl ? [`url:${canonicalizeUrl(entity.websiteUrl)}`] : [],
+  evaluate([entity1, entity2]) {
+    if (
+      !entity1.websiteUrl ||
+      !entity2.websiteUrl ||
+      canonicalizeUrl(entity1.websiteUrl) !==
+        canonicalizeUrl(entity2.websiteUrl) ||
+      entity1.name === entity2.name
+    )
+      return [];
+
+    return [
+      {
+        field: "websiteUrl",
+        values: [
+          toConflictValue(entity1, entity1.websiteUrl),
+          toConflictValue(entity2, entity2.websiteUrl),
+        ],
+        conflictType: "url_mismatch",
+        confidence: 0.55,
+        description: "Different entities sharing the same website URL",
+      },
+    ];
+  },
+  evaluateBlock(entities) {
+    if (new Set(entities.map((entity) => entity.name)).size < 2) return [];
+
+    return [
+      {
+        field: "websiteUrl",
+        values: entities.map((entity) =>
+          toConflictValue(entity, entity.websiteUrl!)
+        ),
+        conflictType: "url_mismatch",
+        confidence: 0.4,
+        description: `${entities.length} different entities sharing the same website URL`,
+      },
+    ];
+  },
+};
+
+// Website URLs should stay on the account's own domain
+export const offDomainUrlRule: ConflictRule = {
+  id: "url_off_domain",
+  name: "Website on another domain",
+  description:
+    "Website URLs pointing at a different domain than most of the account's URLs",
+  scope: "entity",
+  evaluate([entity], context) {
+    if (!entity.websiteUrl || !context.dominantDomain) return [];
+    const domain = getDomain(entity.websiteUrl);
+    if (!domain || domain === context.dominantDomain) return [];
+
+    return [
+      {
+        field: "websiteUrl",
+        values: [toConflictValue(entity, entity.websiteUrl)],
+        conflictType: "url_domain_mismatch",
+        confidence: 0.35,
+        description: `Website is on ${domain}, but most of the account's URLs are on ${context.dominantDomain}`,
+      },
+    ];
+  },
+};
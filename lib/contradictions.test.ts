@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { detectSemanticContradictions } from "@/lib/contradictions";
+
+const summarize = (text1: string, text2: string) =>
+  detectSemanticContradictions(text1, text2).map((item) => ({
+    detector: item.detector,
+    factType: item.factType,
+    spans: item.spans.map((span) => span.text),
+  }));
+
+describe("detectSemanticContradictions", () => {
+  it("reports different names with their source spans", () => {
+    expect(
+      summarize(
+        "The engine was created by Ada Lovelace.",
+        "The engine was created by Charles Babbage."
+      )
+    ).toEqual([
+      {
+        detector: "factual",
+        factType: "name",
+        spans: ["Ada Lovelace", "Charles Babbage"],
+      },
+    ]);
+  });
+
+  it("does not read lowercase words as names", () => {
+    expect(
+      summarize(
+        "Our store is called daily by customers.",
+        "Our store is called weekly by customers."
+      )
+    ).toEqual([]);
+  });
+
+  it("reports different dates of the same event", () => {
+    expect(
+      summarize(
+        "The store opened in 2019 downtown.",
+        "The store opened in 2021 downtown."
+      ).map((item) => item.spans)
+    ).toContainEqual(["2019", "2021"]);
+  });
+
+  it("reports opposite claims about the same subject", () => {
+    expect(
+      summarize(
+        "The gift card is refundable.",
+        "The gift card is not refundable."
+      )
+    ).toEqual([
+      {
+        detector: "factual",
+        factType: "claim",
+        spans: ["is refundable", "is not refundable"],
+      },
+    ]);
+  });
+
+  it("finds nothing in texts differing only in case and punctuation", () => {
+    expect(
+      summarize("Returns within 30 days!", "returns within 30 days.")
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,574 @@
+import type {
+  ContradictionDetector,
+  ContradictionEvidence,
+  TextSpan,
+} from "@/lib/types";
+import { normalizeString, calculateWordOverlap } from "@/lib/text-utils";
+import { extractClaims, areClaimsContradictory } from "@/lib/clauses";
+import { splitSentences, type TextSegment } from "@/lib/rich-text";
+import { alignSentences } from "@/lib/sentence-alignment";
+import {
+  extractSteps,
+  alignSteps,
+  areStepsContradictory,
+  type ProcedureStep,
+} from "@/lib/procedures";
+import {
+  extractDates,
+  formatDateMention,
+  doDatesConflict,
+  type DateMention,
+  type DateOptions,
+} from "@/lib/dates";
+import {
+  extractQuantities,
+  doQuantitiesConflict,
+  type QuantityMention,
+} from "@/lib/quantities";
+
+export interface ContradictionOptions {
+  // Minimum word overlap (0-1) for two sentences, or two values' contexts,
+  // to be about the same thing
+  contextThreshold?: number;
+  // Relative difference under which two quantities count as equal
+  quantityTolerance?: number;
+  // Each text's reference date and language, for reading its dates
+  dateOptions?: [DateOptions?, DateOptions?];
+}
+
+// Most evidence items reported for one pair of texts
+const MAX_EVIDENCE = 20;
+const DEFAULT_CONTEXT_THRESHOLD = 0.3;
+
+// How often a clash of each fact type turns out to be a real contradiction
+const FACT_CONFIDENCE: Record<string, number> = {
+  name: 0.5,
+};
+// Steps undoing each other are likelier real than a missing or moved step,
+// which may be an omission or a harmless alternative order
+const STEP_ACTION_CONFIDENCE = 0.6;
+const STEP_ORDER_CONFIDENCE = 0.45;
+const STEP_MISSING_CONFIDENCE = 0.35;
+// Share of the shorter procedure's steps that must align for two step lists
+// to describe the same procedure
+const SAME_PROCEDURE_SHARE = 0.5;
+// Opposite claims about the same subject
+const CLAIM_CONFIDENCE = 0.7;
+
+// Values clashing in near-identical context are likely about the same thing
+function getContextualConfidence(contextSimilarity: number): number {
+  return 0.5 + 0.45 * contextSimilarity;
+}
+
+interface Fact {
+  type: string;
+  value: string;
+  context: string;
+  // Range of the value in the normalized text
+  start: number;
+  end: number;
+}
+
+// Normalized text (as normalizeString) with the source offset of every character
+interface NormalizedText {
+  text: string;
+  // text with the source's letter case kept, for patterns that need it
+  cased: string;
+  offsets: number[];
+  source: string;
+}
+
+function normalizeWithOffsets(source: string): NormalizedText {
+  let text = "";
+  let cased = "";
+  const offsets: number[] = [];
+  for (let i = 0; i < source.length; i++) {
+    const lower = source[i].toLowerCase();
+    for (const char of lower) {
+      if (/\s/.test(char)) {
+        // Collapse runs of whitespace and drop leading whitespace
+        if (text.length === 0 || text[text.length - 1] === " ") continue;
+        text += " ";
+        cased += " ";
+        offsets.push(i);
+      } else if (/\w/.test(char)) {
+        text += char;
+        cased += lower.length === 1 ? source[i] : char;
+        offsets.push(i);
+      }
+    }
+  }
+  if (text.endsWith(" ")) {
+    text = text.slice(0, -1);
+    cased = cased.slice(0, -1);
+    offsets.pop();
+  }
+  return { text, cased, offsets, source };
+}
+
+// Map a range in the normalized text back to the source text
+function toSourceSpan(
+  normalized: NormalizedText,
+  start: number,
+  end: number
+): TextSpan {
+  const last = Math.min(end, normalized.offsets.length) - 1;
+  const sourceStart = normalized.offsets[start] ?? normalized.source.length;
+  const sourceEnd = last >= start ? normalized.offsets[last] + 1 : sourceStart;
+  return {
+    start: sourceStart,
+    end: sourceEnd,
+    text: normalized.source.substring(sourceStart, sourceEnd),
+  };
+}
+
+function toEvidence(
+  detector: ContradictionDetector,
+  factType: string,
+  description: string,
+  confidence: number,
+  normalized1: NormalizedText,
+  range1: [number, number],
+  normalized2: NormalizedText,
+  range2: [number, number]
+): ContradictionEvidence {
+  return {
+    detector,
+    factType,
+    description,
+    confidence,
+    spans: [
+      toSourceSpan(normalized1, ...range1),
+      toSourceSpan(normalized2, ...range2),
+    ],
+  };
+}
+
+// Shift a span found in a sentence to its offsets in the whole text
+function toTextSpan(span: TextSpan, sentence: TextSegment): TextSpan {
+  return {
+    start: sentence.start + span.start,
+    end: sentence.start + span.end,
+    text: span.text,
+  };
+}
+
+// Advanced semantic contradiction detection. Each sentence of text1 is aligned
+// with its most similar sentence of text2 and only aligned pairs are checked,
+// then the texts' step lists are compared as a whole; returns the clashing
+// facts with their offsets in text1 and text2 and the sentences they were
+// found in (empty when the texts do not contradict)
+export function detectSemanticContradictions(
+  text1: string,
+  text2: string,
+  options: ContradictionOptions = {}
+): ContradictionEvidence[] {
+  // If texts are identical, no contradiction
+  if (normalizeString(text1) === normalizeString(text2)) return [];
+
+  const sentenceEvidence = alignSentences(
+    text1,
+    text2,
+    options.contextThreshold ?? DEFAULT_CONTEXT_THRESHOLD
+  ).flatMap(({ sentences: [sentence1, sentence2], similarity }) =>
+    findSentenceContradictions(sentence1.text, sentence2.text, options).map(
+      (item): ContradictionEvidence => ({
+        ...item,
+        spans: [
+          toTextSpan(item.spans[0], sentence1),
+          toTextSpan(item.spans[1], sentence2),
+        ],
+        alignment: { sentences: [sentence1, sentence2], similarity },
+      })
+    )
+  );
+  const evidence = [
+    ...sentenceEvidence,
+    ...findProceduralContradictions(text1, text2),
+  ].slice(0, MAX_EVIDENCE);
+
+  return evidence;
+}
+
+// Contradictions between two aligned sentences, with offsets in each sentence
+function findSentenceContradictions(
+  sentence1: string,
+  sentence2: string,
+  {
+    contextThreshold = DEFAULT_CONTEXT_THRESHOLD,
+    quantityTolerance = 0,
+    dateOptions = [],
+  }: ContradictionOptions
+): ContradictionEvidence[] {
+  const normalized1 = normalizeWithOffsets(sentence1);
+  const normalized2 = normalizeWithOffsets(sentence2);
+  if (normalized1.text === normalized2.text) return [];
+
+  // 1. Opposite claims about the same subject
+  // 2. Direct contradictions between extracted facts
+  // 3. Temporal contradictions (different dates/times for same event)
+  // 4. Quantitative contradictions (different numbers for same measurement)
+  return [
+    ...findClaimContradictions(sentence1, sentence2),
+    ...findFactualContradictions(
+      normalized1,
+      extractFacts(normalized1),
+      normalized2,
+      extractFacts(normalized2)
+    ),
+    ...findTemporalContradictions(
+      sentence1,
+      sentence2,
+      contextThreshold,
+      dateOptions
+    ),
+    ...findQuantitativeContradictions(
+      sentence1,
+      sentence2,
+      contextThreshold,
+      quantityTolerance
+    ),
+  ];
+}
+
+// Extract key facts from text
+function extractFacts({ text, cased }: NormalizedText): Fact[] {
+  const facts: Fact[] = [];
+
+  // Dates and quantities are compared by findTemporalContradictions and
+  // findQuantitativeContradictions, per event or measurement
+
+  // Extract names/entities; names are capitalized, so match the cased text
+  const nameMatches = [
+    ...cased.matchAll(
+      /(?:named|called|known as|referred to as|created by|invented by)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)/g
+    ),
+  ];
+  nameMatches.forEach((match) => {
+    const start = match.index! + match[0].length - match[1].length;
+    facts.push({
+      type: "name",
+      value: match[1],
+      context: text.substring(
+        Math.max(0, match.index! - 20),
+        match.index! + match[0].length + 20
+      ),
+      start,
+      end: start + match[1].length,
+    });
+  });
+
+  return facts;
+}
+
+// Find opposite claims about the same subject, e.g. "is available" vs "is not available"
+function findClaimContradictions(
+  text1: string,
+  text2: string
+): ContradictionEvidence[] {
+  const claims2 = extractClaims(text2);
+  return extractClaims(text1).flatMap((claim1) =>
+    claims2
+      .filter((claim2) => areClaimsContradictory(claim1, claim2))
+      .map((claim2) => ({
+        detector: "factual" as const,
+        factType: "claim",
+        description: `${claim1.predicate}: "${claim1.text}" vs "${claim2.text}"`,
+        confidence: CLAIM_CONFIDENCE,
+        spans: [
+          { start: claim1.start, end: claim1.end, text: claim1.text },
+          { start: claim2.start, end: claim2.end, text: claim2.text },
+        ] as [TextSpan, TextSpan],
+      }))
+  );
+}
+
+// Find contradictions between facts
+function findFactualContradictions(
+  normalized1: NormalizedText,
+  facts1: Fact[],
+  normalized2: NormalizedText,
+  facts2: Fact[]
+): ContradictionEvidence[] {
+  const contradictions: ContradictionEvidence[] = [];
+
+  // Group facts by type
+  const facts1ByType = facts1.reduce((acc, fact) => {
+    if (!acc[fact.type]) acc[fact.type] = [];
+    acc[fact.type].push(fact);
+    return acc;
+  }, {} as Record<string, Fact[]>);
+
+  const facts2ByType = facts2.reduce((acc, fact) => {
+    if (!acc[fact.type]) acc[fact.type] = [];
+    acc[fact.type].push(fact);
+    return acc;
+  }, {} as Record<string, Fact[]>);
+
+  // Check for contradictions in each type
+  for (const type of Object.keys(facts1ByType)) {
+    if (facts2ByType[type]) {
+      for (const fact1 of facts1ByType[type]) {
+        for (const fact2 of facts2ByType[type]) {
+          if (areFactsContradictory(fact1, fact2)) {
+            contradictions.push(
+              toEvidence(
+                "factual",
+                type,
+                `${type}: "${fact1.value}" vs "${fact2.value}"`,
+                FACT_CONFIDENCE[type],
+                normalized1,
+                [fact1.start, fact1.end],
+                normalized2,
+                [fact2.start, fact2.end]
+              )
+            );
+          }
+        }
+      }
+    }
+  }
+
+  return contradictions;
+}
+
+// Check if two facts are contradictory
+function areFactsContradictory(fact1: Fact, fact2: Fact): boolean {
+  if (fact1.type === "name") {
+    return fact1.value !== fact2.value;
+  }
+
+  return false;
+}
+
+// Empty span where a step missing from a procedure would go: after the step
+// aligned with the one before it, or before the procedure's first step
+function getInsertionSpan(
+  steps: ProcedureStep[],
+  previous: number | undefined
+): TextSpan {
+  const position =
+    previous === undefined ? steps[0].start : steps[previous].end;
+  return { start: position, end: position, text: "" };
+}
+
+// Indexes of the aligned pairs that keep their relative order in both
+// procedures (longest increasing run of second-procedure indexes)
+function getOrderedPairs(pairs: Array<[number, number]>): Set<number> {
+  const lengths = pairs.map(() => 1);
+  const previous = pairs.map(() => -1);
+  for (let i = 0; i < pairs.length; i++) {
+    for (let j = 0; j < i; j++) {
+      if (pairs[j][1] < pairs[i][1] && lengths[j] + 1 > lengths[i]) {
+        lengths[i] = lengths[j] + 1;
+        previous[i] = j;
+      }
+    }
+  }
+  const ordered = new Set<number>();
+  let index = lengths.indexOf(Math.max(...lengths));
+  while (index >= 0) {
+    ordered.add(index);
+    index = previous[index];
+  }
+  return ordered;
+}
+
+// Find procedural contradictions between the step lists of two texts: steps
+// acting on the same thing in opposite ways, steps only one procedure has and
+// steps done in a different order
+function findProceduralContradictions(
+  text1: string,
+  text2: string
+): ContradictionEvidence[] {
+  const steps1 = extractSteps(text1);
+  const steps2 = extractSteps(text2);
+  if (steps1.length === 0 || steps2.length === 0) return [];
+
+  const pairs = alignSteps(steps1, steps2);
+  const contradictions: ContradictionEvidence[] = [];
+  const toSpan = (step: ProcedureStep): TextSpan => ({
+    start: step.start,
+    end: step.end,
+    text: step.text,
+  });
+
+  for (const [i, j] of pairs) {
+    if (!areStepsContradictory(steps1[i], steps2[j])) continue;
+    contradictions.push({
+      detector: "procedural",
+      factType: "step_action",
+      description: `Step ${i + 1}: "${steps1[i].text}" vs "${steps2[j].text}"`,
+      confidence: STEP_ACTION_CONFIDENCE,
+      spans: [toSpan(steps1[i]), toSpan(steps2[j])],
+    });
+  }
+
+  // Missing and reordered steps only mean something when both texts
+  // describe the same procedure
+  const shorter = Math.min(steps1.length, steps2.length);
+  if (pairs.length < 2 || pairs.length < shorter * SAME_PROCEDURE_SHARE) {
+    return contradictions;
+  }
+
+  const ordered = getOrderedPairs(pairs);
+  pairs.forEach(([i, j], index) => {
+    if (ordered.has(index)) return;
+    contradictions.push({
+      detector: "procedural",
+      factType: "step_order",
+      description: `Order: "${steps1[i].text}" is step ${i + 1} vs step ${
+        j + 1
+      }`,
+      confidence: STEP_ORDER_CONFIDENCE,
+      spans: [toSpan(steps1[i]), toSpan(steps2[j])],
+    });
+  });
+
+  const aligned1 = new Map(pairs.map(([i, j]) => [i, j]));
+  const aligned2 = new Map(pairs.map(([i, j]) => [j, i]));
+  // Closest aligned step before a step, mapped to the other procedure
+  const findPrevious = (aligned: Map<number, number>, index: number) => {
+    for (let k = index - 1; k >= 0; k--) {
+      if (aligned.has(k)) return aligned.get(k);
+    }
+    return undefined;
+  };
+
+  steps1.forEach((step, i) => {
+    if (aligned1.has(i)) return;
+    contradictions.push({
+      detector: "procedural",
+      factType: "step_missing",
+      description: `Step ${i + 1} "${step.text}" missing from the second text`,
+      confidence: STEP_MISSING_CONFIDENCE,
+      spans: [
+        toSpan(step),
+        getInsertionSpan(steps2, findPrevious(aligned1, i)),
+      ],
+    });
+  });
+  steps2.forEach((step, j) => {
+    if (aligned2.has(j)) return;
+    contradictions.push({
+      detector: "procedural",
+      factType: "step_missing",
+      description: `Step ${j + 1} "${step.text}" missing from the first text`,
+      confidence: STEP_MISSING_CONFIDENCE,
+      spans: [
+        getInsertionSpan(steps1, findPrevious(aligned2, j)),
+        toSpan(step),
+      ],
+    });
+  });
+
+  return contradictions;
+}
+
+// The sentence a date or quantity appears in, without the value itself; two
+// values with similar contexts are about the same event or measurement
+function getMentionContext(
+  text: string,
+  sentences: TextSegment[],
+  mention: DateMention | QuantityMention
+): string {
+  const sentence = sentences.find(
+    (candidate) => candidate.end > mention.start
+  ) || { start: 0, end: text.length };
+  return `${text.substring(
+    Math.min(sentence.start, mention.start),
+    mention.start
+  )} ${text.substring(mention.end, Math.max(sentence.end, mention.end))}`;
+}
+
+// Find temporal contradictions (different dates for the same event); dates
+// are normalized first, so "2024-01-05" and "January 5, 2024" agree and a
+// year agrees with any day inside it
+function findTemporalContradictions(
+  text1: string,
+  text2: string,
+  contextThreshold: number,
+  [options1, options2]: [DateOptions?, DateOptions?] = []
+): ContradictionEvidence[] {
+  const contradictions: ContradictionEvidence[] = [];
+  const dates1 = extractDates(text1, options1);
+  const dates2 = extractDates(text2, options2);
+  const sentences1 = splitSentences(text1);
+  const sentences2 = splitSentences(text2);
+
+  for (const date1 of dates1) {
+    for (const date2 of dates2) {
+      if (!doDatesConflict(date1, date2)) continue;
+
+      const similarity = calculateWordOverlap(
+        getMentionContext(text1, sentences1, date1),
+        getMentionContext(text2, sentences2, date2)
+      );
+      if (similarity > contextThreshold) {
+        contradictions.push({
+          detector: "temporal",
+          factType: "date",
+          description: `Date: "${date1.text}" (${formatDateMention(
+            date1
+          )}) vs "${date2.text}" (${formatDateMention(date2)}) for same event`,
+          confidence: getContextualConfidence(similarity),
+          spans: [
+            { start: date1.start, end: date1.end, text: date1.text },
+            { start: date2.start, end: date2.end, text: date2.text },
+          ],
+        });
+      }
+    }
+  }
+
+  return contradictions;
+}
+
+// Find quantitative contradictions (different amounts for the same
+// measurement); quantities are compared in canonical units, so "24 hours" and
+// "1 day" agree and "3-5 days" agrees with "4 days" but not "7 days"
+function findQuantitativeContradictions(
+  text1: string,
+  text2: string,
+  contextThreshold: number,
+  tolerance: number
+): ContradictionEvidence[] {
+  const contradictions: ContradictionEvidence[] = [];
+  const quantities1 = extractQuantities(text1);
+  const quantities2 = extractQuantities(text2);
+  const sentences1 = splitSentences(text1);
+  const sentences2 = splitSentences(text2);
+
+  for (const quantity1 of quantities1) {
+    for (const quantity2 of quantities2) {
+      if (!doQuantitiesConflict(quantity1, quantity2, tolerance)) continue;
+
+      const similarity = calculateWordOverlap(
+        getMentionContext(text1, sentences1, quantity1),
+        getMentionContext(text2, sentences2, quantity2)
+      );
+      if (similarity > contextThreshold) {
+        contradictions.push({
+          detector: "quantitative",
+          factType: quantity1.dimension.split(":")[0],
+          description: `Quantity: "${quantity1.text}" vs "${quantity2.text}" for same measurement`,
+          confidence: getContextualConfidence(similarity),
+          spans: [
+            {
+              start: quantity1.start,
+              end: quantity1.end,
+              text: quantity1.text,
+            },
+            {
+              start: quantity2.start,
+              end: quantity2.end,
+              text: quantity2.text,
+            },
+          ],
+        });
+      }
+    }
+  }
+
+  return contradictions;
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+  extractDates,
+  formatDateMention,
+  doDatesConflict,
+  isMonthFirstLanguage,
+} from "@/lib/dates";
+
+const format = (text: string, options = {}) =>
+  extractDates(text, options).map(formatDateMention);
+
+describe("isMonthFirstLanguage", () => {
+  it("is true only for US English", () => {
+    expect(isMonthFirstLanguage("en")).toBe(true);
+    expect(isMonthFirstLanguage("en-US")).toBe(true);
+    expect(isMonthFirstLanguage("en_GB")).toBe(false);
+    expect(isMonthFirstLanguage("fr")).toBe(false);
+  });
+});
+
+describe("extractDates", () => {
+  it("normalizes absolute dates written different ways", () => {
+    expect(format("2024-01-05, January 5th, 2024 and 1/5/2024")).toEqual([
+      "2024-01-05",
+      "2024-01-05",
+      "2024-01-05",
+    ]);
+  });
+
+  it("reads numeric dates day first outside month-first locales", () => {
+    expect(format("1/5/2024", { language: "fr" })).toEqual(["2024-05-01"]);
+    expect(format("5.1.2024", { language: "en" })).toEqual(["2024-01-05"]);
+  });
+
+  it("reads months, quarters and prefixed years", () => {
+    expect(format("Q3 2023, March 2024, since 2019")).toEqual([
+      "2023-Q3",
+      "2024-03",
+      "2019",
+    ]);
+  });
+
+  it("does not read bare numbers as years", () => {
+    expect(format("over 2000 customers")).toEqual([]);
+    expect(format("1 of 2000 customers")).toEqual([]);
+    expect(format("in2019 and of2019")).toEqual([]);
+  });
+
+  it("reads two-digit years in a window around the reference year", () => {
+    const options = { referenceDate: "2026-01-01T00:00:00Z" };
+    expect(format("1/5/99", options)).toEqual(["1999-01-05"]);
+    expect(format("1/5/24", options)).toEqual(["2024-01-05"]);
+    expect(format("1/5/40", options)).toEqual(["2040-01-05"]);
+    expect(format("1/5/50", options)).toEqual(["1950-01-05"]);
+  });
+
+  it("reads relative dates against the reference date", () => {
+    const options = { referenceDate: "2024-01-03T12:00:00Z" }; // Wednesday
+    expect(format("tomorrow", options)).toEqual(["2024-01-04"]);
+    expect(format("next Monday", options)).toEqual(["2024-01-08"]);
+    expect(format("last month", options)).toEqual(["2023-12"]);
+  });
+
+  it("skips relative dates without a usable reference date", () => {
+    expect(format("tomorrow")).toEqual([]);
+    expect(() =>
+      extractDates("tomorrow, next Monday and next week", {
+        referenceDate: "not a date",
+      })
+    ).not.toThrow();
+    expect(format("tomorrow", { referenceDate: "not a date" })).toEqual([]);
+  });
+});
+
+describe("doDatesConflict", () => {
+  it("only reports ranges that share no day", () => {
+    const [year, month, other] = extractDates(
+      "since 2024, in March 2024, in 2023"
+    );
+    expect(doDatesConflict(year, month)).toBe(false);
+    expect(doDatesConflict(year, other)).toBe(true);
+  });
+});
@@ -0,0 +1,370 @@
+// Date mentions in free text, normalized to the range of days they cover so
+// "2024-01-05", "1/5/2024" and "January 5th, 2024" compare equal
+
+export interface DateMention {
+  // Character range of the mention in the source text
+  start: number;
+  end: number;
+  text: string;
+  // Inclusive ISO day range the mention covers, e.g. "Q3 2023" ->
+  // 2023-07-01..2023-09-30
+  from: string;
+  to: string;
+  granularity: "day" | "week" | "month" | "quarter" | "year";
+}
+
+export interface DateOptions {
+  // ISO timestamp that relative dates ("next Monday") are read against
+  referenceDate?: string;
+  // Profile language; decides whether "1/5/2024" is January 5 or May 1
+  language?: string;
+}
+
+// Locales that write numeric dates month first
+const MONTH_FIRST_LANGUAGES = ["en", "en_us", "en-us"];
+
+const MONTHS: Record<string, number> = {
+  january: 1,
+  jan: 1,
+  february: 2,
+  feb: 2,
+  march: 3,
+  mar: 3,
+  april: 4,
+  apr: 4,
+  may: 5,
+  june: 6,
+  jun: 6,
+  july: 7,
+  jul: 7,
+  august: 8,
+  aug: 8,
+  september: 9,
+  sept: 9,
+  sep: 9,
+  october: 10,
+  oct: 10,
+  november: 11,
+  nov: 11,
+  december: 12,
+  dec: 12,
+};
+
+// Whether numeric dates in the language put the month first ("1/5" is January 5)
+export function isMonthFirstLanguage(language: string): boolean {
+  return MONTH_FIRST_LANGUAGES.includes(language.toLowerCase());
+}
+
+const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+const ORDINAL_QUARTERS: Record<string, number> = {
+  first: 1,
+  second: 2,
+  third: 3,
+  fourth: 4,
+};
+
+const MONTH = `(${Object.keys(MONTHS).join("|")})\\.?`;
+const DAY = "(\\d{1,2})(?:st|nd|rd|th)?";
+const YEAR = "((?:19|20)\\d{2})";
+
+// Words that make a bare year a date ("in 2019", "since 2021"). "of" is left
+// out since "1 of 2000 customers" is a count, not a year.
+const YEAR_PREPOSITIONS =
+  "in|since|until|till|by|from|before|after|during|circa";
+
+function isoDay(date: Date): string {
+  return date.toISOString().substring(0, 10);
+}
+
+function utcDate(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return utcDate(year, month + 1, 0).getUTCDate();
+}
+
+// Two-digit years up to this far past the reference year are read as in its
+// century, later ones as in the century before ("1/5/99" is 1999)
+const TWO_DIGIT_YEAR_LOOKAHEAD = 20;
+
+// The reference date, or null when missing or malformed
+function parseReferenceDate(referenceDate?: string): Date | null {
+  if (!referenceDate) return null;
+  const date = new Date(referenceDate);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function toFullYear(year: string, options: DateOptions): number {
+  const value = parseInt(year, 10);
+  if (year.length !== 2) return value;
+  const referenceYear = (
+    parseReferenceDate(options.referenceDate) || new Date()
+  ).getUTCFullYear();
+  const century = Math.floor(referenceYear / 100) * 100;
+  return century + value > referenceYear + TWO_DIGIT_YEAR_LOOKAHEAD
+    ? century - 100 + value
+    : century + value;
+}
+
+function dayRange(year: number, month: number, day: number) {
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) {
+    return null;
+  }
+  const iso = isoDay(utcDate(year, month, day));
+  return { from: iso, to: iso, granularity: "day" as const };
+}
+
+function monthRange(year: number, fromMonth: number, toMonth = fromMonth) {
+  return {
+    from: isoDay(utcDate(year, fromMonth, 1)),
+    to: isoDay(utcDate(year, toMonth, daysInMonth(year, toMonth))),
+  };
+}
+
+// Monday-based week containing the date
+function weekRange(date: Date) {
+  const monday = addDays(date, -((date.getUTCDay() + 6) % 7));
+  return {
+    from: isoDay(monday),
+    to: isoDay(addDays(monday, 6)),
+    granularity: "week" as const,
+  };
+}
+
+type Range = Pick<DateMention, "from" | "to" | "granularity">;
+
+interface DatePattern {
+  pattern: RegExp;
+  // Group index holding the date when the match includes leading words
+  group?: number;
+  parse: (match: RegExpMatchArray, options: DateOptions) => Range | null;
+}
+
+// Ordered from most to least specific; earlier matches claim their text
+const DATE_PATTERNS: DatePattern[] = [
+  {
+    // 2024-01-05
+    pattern: /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/g,
+    parse: ([, year, month, day]) =>
+      dayRange(parseInt(year, 10), parseInt(month, 10), parseInt(day, 10)),
+  },
+  {
+    // January 5, 2024 / Jan. 5th 2024
+    pattern: new RegExp(`\\b${MONTH}\\s+${DAY},?\\s+${YEAR}\\b`, "gi"),
+    parse: ([, month, day, year]) =>
+      dayRange(
+        parseInt(year, 10),
+        MONTHS[month.toLowerCase()],
+        parseInt(day, 10)
+      ),
+  },
+  {
+    // 5 January 2024 / 5th of January, 2024
+    pattern: new RegExp(
+      `\\b${DAY}\\s+(?:of\\s+)?${MONTH},?\\s+${YEAR}\\b`,
+      "gi"
+    ),
+    parse: ([, day, month, year]) =>
+      dayRange(
+        parseInt(year, 10),
+        MONTHS[month.toLowerCase()],
+        parseInt(day, 10)
+      ),
+  },
+  {
+    // 1/5/2024, 01-05-24, 5.1.2024
+    pattern: /\b(\d{1,2})([./-])(\d{1,2})\2(\d{4}|\d{2})\b/g,
+    parse: ([, first, separator, second, year], options) => {
+      const a = parseInt(first, 10);
+      const b = parseInt(second, 10);
+      // Dotted dates are day first everywhere; otherwise follow the locale
+      // unless one of the numbers cannot be a month
+      const monthFirst =
+        separator !== "." &&
+        (b > 12 || (a <= 12 && isMonthFirstLanguage(options.language || "en")));
+      return monthFirst
+        ? dayRange(toFullYear(year, options), a, b)
+        : dayRange(toFullYear(year, options), b, a);
+    },
+  },
+  {
+    // Q3 2023 / Q3 of 2023
+    pattern: new RegExp(`\\bQ([1-4])\\s*(?:of\\s+)?${YEAR}\\b`, "gi"),
+    parse: ([, quarter, year]) => ({
+      ...monthRange(
+        parseInt(year, 10),
+        parseInt(quarter, 10) * 3 - 2,
+        parseInt(quarter, 10) * 3
+      ),
+      granularity: "quarter",
+    }),
+  },
+  {
+    // third quarter of 2023
+    pattern: new RegExp(
+      `\\b(first|second|third|fourth)\\s+quarter\\s+(?:of\\s+)?${YEAR}\\b`,
+      "gi"
+    ),
+    parse: ([, ordinal, year]) => {
+      const quarter = ORDINAL_QUARTERS[ordinal.toLowerCase()];
+      return {
+        ...monthRange(parseInt(year, 10), quarter * 3 - 2, quarter * 3),
+        granularity: "quarter",
+      };
+    },
+  },
+  {
+    // January 2024
+    pattern: new RegExp(`\\b${MONTH},?\\s+${YEAR}\\b`, "gi"),
+    parse: ([, month, year]) => ({
+      ...monthRange(parseInt(year, 10), MONTHS[month.toLowerCase()]),
+      granularity: "month",
+    }),
+  },
+  {
+    // today / tomorrow / yesterday
+    pattern: /\b(today|tomorrow|yesterday)\b/gi,
+    parse: ([, word], { referenceDate }) => {
+      const reference = parseReferenceDate(referenceDate);
+      if (!reference) return null;
+      const offset = { today: 0, tomorrow: 1, yesterday: -1 }[
+        word.toLowerCase() as "today" | "tomorrow" | "yesterday"
+      ];
+      const iso = isoDay(addDays(reference, offset));
+      return { from: iso, to: iso, granularity: "day" };
+    },
+  },
+  {
+    // next Monday / last Friday / this Sunday
+    pattern: new RegExp(
+      `\\b(next|last|this)\\s+(${WEEKDAYS.join("|")})\\b`,
+      "gi"
+    ),
+    parse: ([, direction, weekday], { referenceDate }) => {
+      const reference = parseReferenceDate(referenceDate);
+      if (!reference) return null;
+      const target = WEEKDAYS.indexOf(weekday.toLowerCase());
+      const current = reference.getUTCDay();
+      let offset: number;
+      if (direction.toLowerCase() === "next") {
+        offset = (target - current + 7) % 7 || 7;
+      } else if (direction.toLowerCase() === "last") {
+        offset = -((current - target + 7) % 7 || 7);
+      } else {
+        // Within the reference date's Monday-based week
+        offset = ((target + 6) % 7) - ((current + 6) % 7);
+      }
+      const iso = isoDay(addDays(reference, offset));
+      return { from: iso, to: iso, granularity: "day" };
+    },
+  },
+  {
+    // next week / last month / this year
+    pattern: /\b(next|last|this)\s+(week|month|year)\b/gi,
+    parse: ([, direction, unit], { referenceDate }) => {
+      const reference = parseReferenceDate(referenceDate);
+      if (!reference) return null;
+      const step = { next: 1, last: -1, this: 0 }[
+        direction.toLowerCase() as "next" | "last" | "this"
+      ];
+      if (unit.toLowerCase() === "week") {
+        return weekRange(addDays(reference, step * 7));
+      }
+      if (unit.toLowerCase() === "month") {
+        const shifted = utcDate(
+          reference.getUTCFullYear(),
+          reference.getUTCMonth() + 1 + step,
+          1
+        );
+        return {
+          ...monthRange(shifted.getUTCFullYear(), shifted.getUTCMonth() + 1),
+          granularity: "month",
+        };
+      }
+      const year = reference.getUTCFullYear() + step;
+      return { ...monthRange(year, 1, 12), granularity: "year" };
+    },
+  },
+  {
+    // "in 2019", "since 2021", "© 2021": a bare number is only a year after
+    // these words, so "1500 items" or "2000 customers" are not dates
+    pattern: new RegExp(
+      `(?:\\b(?:${YEAR_PREPOSITIONS})\\s+|©\\s*)${YEAR}\\b`,
+      "gi"
+    ),
+    group: 1,
+    parse: ([, year]) => ({
+      ...monthRange(parseInt(year, 10), 1, 12),
+      granularity: "year",
+    }),
+  },
+];
+
+// Find and normalize every date mentioned in the text, in text order
+export function extractDates(
+  text: string,
+  options: DateOptions = {}
+): DateMention[] {
+  const mentions: DateMention[] = [];
+  const overlapsExisting = (start: number, end: number) =>
+    mentions.some((mention) => start < mention.end && end > mention.start);
+
+  for (const { pattern, group, parse } of DATE_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const matched = group ? match[group] : match[0];
+      const start = group
+        ? match.index! + match[0].lastIndexOf(matched)
+        : match.index!;
+      const end = start + matched.length;
+      if (overlapsExisting(start, end)) continue;
+
+      const range = parse(match, options);
+      if (range) {
+        mentions.push({ start, end, text: matched, ...range });
+      }
+    }
+  }
+
+  return mentions.sort((a, b) => a.start - b.start);
+}
+
+// Compact normalized form, e.g. "2024-01-05", "2024-01", "2023-Q3" or "2024"
+export function formatDateMention(mention: DateMention): string {
+  switch (mention.granularity) {
+    case "day":
+      return mention.from;
+    case "month":
+      return mention.from.substring(0, 7);
+    case "quarter":
+      return `${mention.from.substring(0, 4)}-Q${
+        Math.floor(parseInt(mention.from.substring(5, 7), 10) / 3) + 1
+      }`;
+    case "year":
+      return mention.from.substring(0, 4);
+    default:
+      return `${mention.from}/${mention.to}`;
+  }
+}
+
+// Two mentions conflict when no day is covered by both ("2024" and
+// "March 2024" are compatible, "2023" and "2024" are not)
+export function doDatesConflict(
+  date1: DateMention,
+  date2: DateMention
+): boolean {
+  return date1.to < date2.from || date2.to < date1.from;
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_DETECTION_PROFILE,
+  resolveProfile,
+  isEntityTypeIncluded,
+  getFieldPriority,
+} from "@/lib/detection-profile";
+
+describe("resolveProfile", () => {
+  it("replaces only the overridden settings", () => {
+    const profile = resolveProfile({ nameSimilarityThreshold: 0.5 });
+    expect(profile.nameSimilarityThreshold).toBe(0.5);
+    expect(profile.fieldPriorities).toBe(
+      DEFAULT_DETECTION_PROFILE.fieldPriorities
+    );
+  });
+});
+
+describe("isEntityTypeIncluded", () => {
+  it("includes every type not excluded when no types are listed", () => {
+    const profile = resolveProfile({
+      includedEntityTypes: [],
+      excludedEntityTypes: ["bufo"],
+    });
+    expect(isEntityTypeIncluded(profile, "faq")).toBe(true);
+    expect(isEntityTypeIncluded(profile, "bufo")).toBe(false);
+  });
+
+  it("lets exclusions win over inclusions", () => {
+    const profile = resolveProfile({
+      includedEntityTypes: ["faq", "bufo"],
+      excludedEntityTypes: ["bufo"],
+    });
+    expect(isEntityTypeIncluded(profile, "faq")).toBe(true);
+    expect(isEntityTypeIncluded(profile, "product")).toBe(false);
+    expect(isEntityTypeIncluded(profile, "bufo")).toBe(false);
+  });
+});
+
+describe("getFieldPriority", () => {
+  it("falls back to the fields for all types", () => {
+    const profile = resolveProfile({
+      fieldPriorities: { "*": ["description"], book: ["bodyV2"] },
+    });
+    expect(getFieldPriority(profile, "book")).toEqual(["bodyV2"]);
+    expect(getFieldPriority(profile, "faq")).toEqual(["description"]);
+  });
+});
@@ -0,0 +1,82 @@
+import type { DetectionProfile, ComparedField } from "@/lib/types";
+
+// Text fields in the order they are tried when no type-specific order exists
+const STANDARD_FIELDS = [
+  "description",
+  "content",
+  "body",
+  "bodyV2",
+  "richTextDescription",
+  "richText",
+];
+
+// Book entities keep their main text in bodyV2
+const BOOK_FIELDS = [
+  "bodyV2",
+  "body",
+  "description",
+  "content",
+  "richTextDescription",
+  "richText",
+];
+
+export const DEFAULT_DETECTION_PROFILE: DetectionProfile = {
+  nameSimilarityThreshold: 0.3,
+  contextSimilarityThreshold: 0.3,
+  quantityTolerance: 0.02,
+  includedEntityTypes: [],
+  excludedEntityTypes: ["bufo", "ce_bufo"],
+  fieldPriorities: {
+    "*": STANDARD_FIELDS,
+    book: BOOK_FIELDS,
+    ce_book: BOOK_FIELDS,
+  },
+  severityBands: {
+    high: 0.75,
+    medium: 0.45,
+  },
+  semanticSimilarity: false,
+  semanticSimilarityThreshold: 0.8,
+  questionSimilarityThreshold: 0.6,
+  crossTypeSimilarityThreshold: 0.6,
+  comparedFields: {},
+};
+
+// Merge overrides onto the default profile; each overridden setting replaces the default
+export function resolveProfile(
+  overrides: Partial<DetectionProfile> = {}
+): DetectionProfile {
+  return { ...DEFAULT_DETECTION_PROFILE, ...overrides };
+}
+
+// Check whether an entity type should be analyzed under the profile
+export function isEntityTypeIncluded(
+  profile: DetectionProfile,
+  entityType: string
+): boolean {
+  if (profile.excludedEntityTypes.includes(entityType)) return false;
+  return (
+    profile.includedEntityTypes.length === 0 ||
+    profile.includedEntityTypes.includes(entityType)
+  );
+}
+
+// Ordered text fields to compare for an entity type
+export function getFieldPriority(
+  profile: DetectionProfile,
+  entityType: string
+): string[] {
+  return (
+    profile.fieldPriorities[entityType] ||
+    profile.fieldPriorities["*"] ||
+    STANDARD_FIELDS
+  );
+}
+
+// Discovered fields opted into comparison for an entity type
+export function getComparedFields(
+  profile: DetectionProfile,
+  entityType: string
+): ComparedField[] {
+  return profile.comparedFields[entityType] || [];
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { clusterQuestions, getQuestionTokens } from "@/lib/faq-clustering";
+
+const HOURS = ["What are your hours?", "What are your opening hours?"];
+const RETURNS = ["How do I return an item?", "Can I send back a product?"];
+
+const summarize = (clusters: ReturnType<typeof clusterQuestions>) =>
+  clusters.map((cluster) => cluster.members.map((member) => member.question));
+
+describe("getQuestionTokens", () => {
+  it("keeps stemmed content words only", () => {
+    expect(getQuestionTokens("What are your opening hours?")).toEqual(
+      new Set(["open", "hour"])
+    );
+  });
+});
+
+describe("clusterQuestions", () => {
+  it("matches questions whose overlap reaches the threshold", () => {
+    // One of the two content words is shared: Dice overlap 2/3
+    const [cluster] = clusterQuestions(HOURS, { threshold: 2 / 3 });
+    expect(cluster.members).toEqual([
+      { question: HOURS[0], similarity: 1 },
+      { question: HOURS[1], similarity: 2 / 3 },
+    ]);
+  });
+
+  it("keeps questions apart below the threshold", () => {
+    expect(summarize(clusterQuestions(HOURS, { threshold: 0.7 }))).toEqual([
+      [HOURS[0]],
+      [HOURS[1]],
+    ]);
+  });
+
+  it("matches paraphrases through embeddings when given", () => {
+    const vectors: Record<string, number[]> = {
+      [RETURNS[0]]: [1, 0],
+      [RETURNS[1]]: [0.9, Math.sqrt(1 - 0.81)],
+    };
+    const embedding = (question: string) => vectors[question];
+
+    expect(summarize(clusterQuestions(RETURNS, { threshold: 0.6 }))).toEqual([
+      [RETURNS[0]],
+      [RETURNS[1]],
+    ]);
+    expect(
+      summarize(
+        clusterQuestions(RETURNS, {
+          threshold: 0.6,
+          embedding,
+          semanticThreshold: 0.85,
+        })
+      )
+    ).toEqual([RETURNS]);
+    expect(
+      summarize(
+        clusterQuestions(RETURNS, {
+          threshold: 0.6,
+          embedding,
+          semanticThreshold: 0.95,
+        })
+      )
+    ).toEqual([[RETURNS[0]], [RETURNS[1]]]);
+  });
+});
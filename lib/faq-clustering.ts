@@ -0,0 +1,200 @@
+import { normalizeString } from "@/lib/text-utils";
+import { cosineSimilarity } from "@/lib/similarity";
+import { findSimilarEmbeddingPairs } from "@/lib/candidate-generation";
+
+export interface QuestionClusterOptions {
+  // Minimum Dice overlap of stemmed content words for two questions to match
+  threshold: number;
+  // Question embeddings, matched by cosine similarity when present
+  embedding?: (question: string) => number[] | undefined;
+  semanticThreshold?: number;
+  // Tokens shared by more questions than this are not used to find matches
+  maxBlockSize?: number;
+}
+
+export interface QuestionCluster {
+  // Question the others were matched against
+  representative: string;
+  // Every question in the cluster, the representative first, with its
+  // similarity (0-1) to the representative
+  members: Array<{ question: string; similarity: number }>;
+}
+
+const DEFAULT_MAX_BLOCK_SIZE = 500;
+
+// Words that carry no topic ("what are your hours" is about "hours"). "when",
+// "where", "who" and "why" stay, since they change what is being asked.
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "the",
+  "what",
+  "whats",
+  "how",
+  "is",
+  "are",
+  "was",
+  "were",
+  "be",
+  "do",
+  "does",
+  "did",
+  "can",
+  "could",
+  "will",
+  "would",
+  "should",
+  "i",
+  "me",
+  "my",
+  "we",
+  "our",
+  "you",
+  "your",
+  "it",
+  "its",
+  "there",
+  "this",
+  "that",
+  "to",
+  "of",
+  "for",
+  "in",
+  "on",
+  "at",
+  "by",
+  "with",
+  "about",
+  "any",
+  "get",
+  "have",
+  "has",
+]);
+
+// Light suffix stripping so "hours"/"hour" and "opening"/"open" match
+function stem(word: string): string {
+  let stemmed = word;
+  if (stemmed.endsWith("ies") && stemmed.length > 4) {
+    stemmed = stemmed.slice(0, -3) + "y";
+  } else if (stemmed.endsWith("sses")) {
+    stemmed = stemmed.slice(0, -2);
+  } else if (
+    stemmed.endsWith("s") &&
+    !/(ss|us|is)$/.test(stemmed) &&
+    stemmed.length > 3
+  ) {
+    stemmed = stemmed.slice(0, -1);
+  }
+
+  for (const suffix of ["ing", "ed", "ly"]) {
+    if (stemmed.endsWith(suffix) && stemmed.length - suffix.length >= 3) {
+      stemmed = stemmed.slice(0, -suffix.length);
+      break;
+    }
+  }
+  return stemmed.replace(/e$/, "");
+}
+
+export function getQuestionTokens(question: string): Set<string> {
+  return new Set(
+    normalizeString(question)
+      .split(" ")
+      .filter((word) => word && !STOP_WORDS.has(word))
+      .map(stem)
+  );
+}
+
+function dice(tokens1: Set<string>, tokens2: Set<string>): number {
+  if (tokens1.size === 0 && tokens2.size === 0) return 1;
+  let shared = 0;
+  for (const token of tokens1) {
+    if (tokens2.has(token)) shared++;
+  }
+  return (2 * shared) / (tokens1.size + tokens2.size);
+}
+
+// Group questions asking the same thing. Each question joins the most similar
+// cluster whose representative it matches, or starts a new one; questions are
+// taken in the order given, so callers list the preferred representatives
+// (e.g. the most frequently asked wording) first.
+export function clusterQuestions(
+  questions: string[],
+  options: QuestionClusterOptions
+): QuestionCluster[] {
+  const maxBlockSize = options.maxBlockSize ?? DEFAULT_MAX_BLOCK_SIZE;
+  const tokens = questions.map(getQuestionTokens);
+  const embeddings = questions.map((question) => options.embedding?.(question));
+
+  const similarity = (i: number, j: number): number => {
+    const overlap = dice(tokens[i], tokens[j]);
+    if (overlap >= options.threshold) return overlap;
+    const [embedding1, embedding2] = [embeddings[i], embeddings[j]];
+    if (embedding1 && embedding2 && options.semanticThreshold !== undefined) {
+      const cosine = cosineSimilarity(embedding1, embedding2);
+      if (cosine >= options.semanticThreshold) return cosine;
+    }
+    return 0;
+  };
+
+  // Earlier questions with a similar embedding, by question index
+  const embeddingNeighbours = new Map<number, number[]>();
+  if (options.semanticThreshold !== undefined) {
+    for (const [j, i] of findSimilarEmbeddingPairs(
+      embeddings,
+      options.semanticThreshold,
+      maxBlockSize
+    )) {
+      if (!embeddingNeighbours.has(i)) embeddingNeighbours.set(i, []);
+      embeddingNeighbours.get(i)!.push(j);
+    }
+  }
+
+  // Representatives indexed by token, so each question is only compared with
+  // representatives sharing a word or the clusters of its embedding neighbours
+  const clusters: QuestionCluster[] = [];
+  const representatives: number[] = [];
+  const clusterOf: number[] = [];
+  const tokenIndex = new Map<string, number[]>();
+
+  questions.forEach((question, i) => {
+    const candidates = new Set<number>();
+    for (const token of tokens[i]) {
+      const postings = tokenIndex.get(token) || [];
+      if (postings.length > maxBlockSize) continue;
+      postings.forEach((cluster) => candidates.add(cluster));
+    }
+    for (const j of embeddingNeighbours.get(i) || []) {
+      candidates.add(clusterOf[j]);
+    }
+
+    let best = -1;
+    let bestSimilarity = 0;
+    for (const cluster of candidates) {
+      const score = similarity(i, representatives[cluster]);
+      if (score > bestSimilarity) {
+        best = cluster;
+        bestSimilarity = score;
+      }
+    }
+
+    if (best >= 0) {
+      clusters[best].members.push({ question, similarity: bestSimilarity });
+      clusterOf[i] = best;
+      return;
+    }
+
+    const cluster = clusters.length;
+    clusterOf[i] = cluster;
+    clusters.push({
+      representative: question,
+      members: [{ question, similarity: 1 }],
+    });
+    representatives.push(i);
+    for (const token of tokens[i]) {
+      if (!tokenIndex.has(token)) tokenIndex.set(token, []);
+      tokenIndex.get(token)!.push(cluster);
+    }
+  });
+
+  return clusters;
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from "vitest";
+import type { YextEntity } from "@/lib/types";
+import {
+  classifyValue,
+  formatFieldValue,
+  discoverFields,
+} from "@/lib/field-discovery";
+
+vi.spyOn(console, "log").mockImplementation(() => {});
+
+describe("classifyValue", () => {
+  it("classifies strings by their content", () => {
+    expect(classifyValue("$19.99")).toBe("number");
+    expect(classifyValue("https://example.com")).toBe("url");
+    expect(classifyValue("2024-01-05")).toBe("date");
+    expect(classifyValue("(555) 123-4567")).toBe("phone");
+    expect(classifyValue("IN_STOCK")).toBe("enum");
+    expect(classifyValue("**Bold** claim")).toBe("richText");
+    expect(classifyValue("Plain words")).toBe("text");
+  });
+
+  it("classifies structured values", () => {
+    expect(
+      classifyValue({ value: "19.99", currencyCode: "USD-US Dollar" })
+    ).toBe("number");
+    expect(classifyValue({ url: "https://example.com" })).toBe("url");
+    expect(classifyValue({ markdown: "# Hi" })).toBe("richText");
+    expect(classifyValue(["a", "b"])).toBe("list");
+    expect(classifyValue(["42"], new Set(["42"]))).toBe("entityReference");
+    expect(classifyValue({ line1: "100 Main St" })).toBeNull();
+    expect(classifyValue("")).toBeNull();
+  });
+});
+
+describe("formatFieldValue", () => {
+  it("writes values as plain text", () => {
+    expect(
+      formatFieldValue({ value: "19.99", currencyCode: "USD-US Dollar" })
+    ).toBe("19.99 USD");
+    expect(formatFieldValue(["a", { name: "b" }, ""])).toBe("a, b");
+    expect(formatFieldValue({ markdown: "**Hi**" })).toBe("Hi");
+  });
+});
+
+describe("discoverFields", () => {
+  it("reports each type's fields with their usual kind and coverage", () => {
+    const products: YextEntity[] = ["In stock", "Sold out"].flatMap(
+      (status, i) =>
+        [0, 1, 2].map((j) => ({
+          id: `${i}${j}`,
+          meta: { id: `${i}${j}`, entityType: "product" },
+          c_status: status,
+          c_price: i === 0 && j === 0 ? undefined : `$${j + 1}`,
+        }))
+    );
+    expect(discoverFields(products)).toEqual([
+      {
+        entityType: "product",
+        field: "c_price",
+        kind: "number",
+        coverage: 5 / 6,
+        examples: ["$2", "$3", "$1"],
+      },
+      {
+        entityType: "product",
+        field: "c_status",
+        kind: "enum",
+        coverage: 1,
+        examples: ["In stock", "Sold out"],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,234 @@
+import type { YextEntity, FieldKind, DiscoveredField } from "@/lib/types";
+import { extractTextContent } from "@/lib/text-utils";
+
+// Fields found on fetched entities, classified by the values they hold so
+// custom ("c_*") fields can be compared like the built-in ones
+
+// Bookkeeping fields that never hold comparable content
+const IGNORED_FIELDS = ["id", "meta"];
+
+const NUMBER_PATTERN = /^[$€£¥]?\s?-?\d[\d,.]*$/;
+const PHONE_PATTERN = /^\+?[\d\s().-]+(?:\s*(?:ext\.?|x)\s*\d{1,6})?$/i;
+const URL_PATTERN = /^(?:https?:\/\/|www\.)\S+$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:T[\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+// Option values of single- and multi-option fields, e.g. "IN_STOCK"
+const OPTION_PATTERN = /^[A-Z][A-Z0-9]*(?:_[A-Z0-9]+)*$/;
+// HTML tags, Markdown headings, emphasis, links and list items
+const MARKUP_PATTERN =
+  /<\/?[a-z][^>]*>|^#{1,6}\s|\*\*|\[[^\]]+\]\([^)]+\)|^\s*[-*]\s/im;
+
+// Text fields with this few distinct short values are treated as options
+const MAX_ENUM_VALUES = 10;
+const MAX_ENUM_WORDS = 3;
+const MIN_ENUM_ENTITIES = 5;
+const MAX_EXAMPLES = 3;
+const MAX_EXAMPLE_LENGTH = 60;
+
+function isEmpty(value: unknown): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Id of a linked entity: a { id } / { entityId } object, or a plain id
+// belonging to a fetched entity
+function getReferenceId(
+  value: unknown,
+  entityIds: Set<string>
+): string | undefined {
+  if (isRecord(value)) {
+    const id = value.entityId ?? value.id;
+    return typeof id === "string" || typeof id === "number"
+      ? String(id)
+      : undefined;
+  }
+  return typeof value === "string" && entityIds.has(value) ? value : undefined;
+}
+
+function classifyString(value: string): FieldKind {
+  const text = value.trim();
+  if (NUMBER_PATTERN.test(text)) return "number";
+  if (URL_PATTERN.test(text)) return "url";
+  if (DATE_PATTERN.test(text)) return "date";
+  const digits = text.replace(/\D/g, "").length;
+  if (PHONE_PATTERN.test(text) && digits >= 7 && digits <= 15) return "phone";
+  if (OPTION_PATTERN.test(text)) return "enum";
+  if (text.includes("\n") || MARKUP_PATTERN.test(text)) return "richText";
+  return "text";
+}
+
+// Kind of a single value, or null for structures other rules compare
+// (addresses, hours, coordinates)
+export function classifyValue(
+  value: unknown,
+  entityIds: Set<string> = new Set()
+): FieldKind | null {
+  if (isEmpty(value)) return null;
+  if (typeof value === "boolean") return "enum";
+  if (typeof value === "number") return "number";
+  if (typeof value === "string") {
+    return entityIds.has(value) ? "entityReference" : classifyString(value);
+  }
+  if (Array.isArray(value)) {
+    return value.every((item) => getReferenceId(item, entityIds) !== undefined)
+      ? "entityReference"
+      : "list";
+  }
+  if (!isRecord(value)) return null;
+
+  // Rich text v2, e.g. { json } or { markdown }
+  if ("json" in value || "markdown" in value || "html" in value) {
+    return "richText";
+  }
+  // Price fields, e.g. { value: "19.99", currencyCode: "USD-US Dollar" }
+  if ("currencyCode" in value && "value" in value) return "number";
+  // Website and call-to-action fields, e.g. { url, displayUrl } or { link }
+  if (typeof value.url === "string") return "url";
+  if (typeof value.link === "string" && URL_PATTERN.test(value.link)) {
+    return "url";
+  }
+  if (getReferenceId(value, entityIds) !== undefined) return "entityReference";
+  return null;
+}
+
+// Plain-text form of a field value, for display and comparison
+export function formatFieldValue(value: unknown): string {
+  if (isEmpty(value)) return "";
+  if (typeof value === "string") return value.trim();
+  if (typeof value === "number" || typeof value === "boolean") {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(formatFieldValue).filter(Boolean).join(", ");
+  }
+  if (!isRecord(value)) return "";
+
+  if ("json" in value || "markdown" in value || "html" in value) {
+    return extractTextContent(value);
+  }
+  if ("currencyCode" in value && "value" in value) {
+    // "USD-US Dollar" -> "19.99 USD"
+    const currency = String(value.currencyCode).split("-")[0];
+    return `${formatFieldValue(value.value)} ${currency}`.trim();
+  }
+  if (typeof value.url === "string") return value.url;
+  if (typeof value.link === "string") return value.link;
+  const name = value.name ?? value.label;
+  if (typeof name === "string") return name;
+  const id = value.entityId ?? value.id;
+  if (typeof id === "string" || typeof id === "number") return String(id);
+  return JSON.stringify(value);
+}
+
+interface FieldStats {
+  kinds: Map<FieldKind, number>;
+  values: number;
+  // Distinct values, up to one more than an option field can have
+  distinct: Set<string>;
+  maxWords: number;
+  examples: string[];
+}
+
+// Most common kind among the field's values; short text with few distinct
+// values is an option field written out in words
+function getFieldKind(stats: FieldStats): FieldKind {
+  let kind: FieldKind = "text";
+  let best = 0;
+  for (const [candidate, count] of stats.kinds) {
+    if (count > best) {
+      kind = candidate;
+      best = count;
+    }
+  }
+
+  if (
+    kind === "text" &&
+    stats.values >= MIN_ENUM_ENTITIES &&
+    stats.distinct.size <= MAX_ENUM_VALUES &&
+    stats.distinct.size <= stats.values / 2 &&
+    stats.maxWords <= MAX_ENUM_WORDS
+  ) {
+    return "enum";
+  }
+  return kind;
+}
+
+// Every field with a value on the fetched entities, per entity type, with
+// the kind most of its values have
+export function discoverFields(entities: YextEntity[]): DiscoveredField[] {
+  const entityIds = new Set(
+    entities
+      .map((entity) => entity.meta?.id || entity.id)
+      .filter((id): id is string => !!id)
+  );
+  const entityCounts = new Map<string, number>();
+  const fieldStats = new Map<string, Map<string, FieldStats>>();
+
+  for (const entity of entities) {
+    const entityType = entity.meta?.entityType || "unknown";
+    entityCounts.set(entityType, (entityCounts.get(entityType) || 0) + 1);
+    if (!fieldStats.has(entityType)) fieldStats.set(entityType, new Map());
+    const fields = fieldStats.get(entityType)!;
+
+    for (const [field, value] of Object.entries(entity)) {
+      if (IGNORED_FIELDS.includes(field)) continue;
+      const kind = classifyValue(value, entityIds);
+      if (!kind) continue;
+
+      if (!fields.has(field)) {
+        fields.set(field, {
+          kinds: new Map(),
+          values: 0,
+          distinct: new Set(),
+          maxWords: 0,
+          examples: [],
+        });
+      }
+      const stats = fields.get(field)!;
+      const text = formatFieldValue(value);
+      stats.kinds.set(kind, (stats.kinds.get(kind) || 0) + 1);
+      stats.values++;
+      stats.maxWords = Math.max(stats.maxWords, text.split(/\s+/).length);
+      if (stats.distinct.size <= MAX_ENUM_VALUES) stats.distinct.add(text);
+      if (
+        stats.examples.length < MAX_EXAMPLES &&
+        !stats.examples.includes(text)
+      ) {
+        stats.examples.push(
+          text.length > MAX_EXAMPLE_LENGTH
+            ? text.substring(0, MAX_EXAMPLE_LENGTH) + "..."
+            : text
+        );
+      }
+    }
+  }
+
+  const discovered: DiscoveredField[] = [];
+  for (const [entityType, fields] of fieldStats) {
+    for (const [field, stats] of fields) {
+      discovered.push({
+        entityType,
+        field,
+        kind: getFieldKind(stats),
+        coverage: stats.values / entityCounts.get(entityType)!,
+        examples: stats.examples,
+      });
+    }
+  }
+
+  console.log(
+    `[v0] Discovered ${discovered.length} fields across ${fieldStats.size} entity types`
+  );
+
+  return discovered.sort(
+    (a, b) =>
+      a.entityType.localeCompare(b.entityType) || a.field.localeCompare(b.field)
+  );
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import type { FieldKind } from "@/lib/types";
+import { areFieldValuesEqual } from "@/lib/field-rules";
+
+const areEqual = (kind: FieldKind, value1: unknown, value2: unknown) =>
+  areFieldValuesEqual(
+    kind,
+    { id: "1", c_field: value1 },
+    { id: "2", c_field: value2 },
+    "c_field",
+    0.02
+  );
+
+describe("areFieldValuesEqual", () => {
+  it("compares phone numbers in E.164", () => {
+    expect(areEqual("phone", "(555) 123-4567", "+1 555 123 4567")).toBe(true);
+    expect(areEqual("phone", "(555) 123-4567", "(555) 123-4568")).toBe(false);
+  });
+
+  it("compares canonical URLs", () => {
+    expect(
+      areEqual("url", "https://www.example.com/menu/", "example.com/menu")
+    ).toBe(true);
+  });
+
+  it("compares amounts within the tolerance", () => {
+    expect(
+      areEqual("number", "$19.99", {
+        value: "19.99",
+        currencyCode: "USD-US Dollar",
+      })
+    ).toBe(true);
+    expect(areEqual("number", "100", "101")).toBe(true);
+    expect(areEqual("number", "100", "120")).toBe(false);
+  });
+
+  it("compares dates as ranges", () => {
+    expect(areEqual("date", "2024-01-05", "January 5, 2024")).toBe(true);
+    expect(areEqual("date", "2024-01-05", "2024-01-06")).toBe(false);
+  });
+
+  it("compares lists in any order and linked entities by id", () => {
+    expect(areEqual("list", ["Red", "Blue"], ["blue", "red"])).toBe(true);
+    expect(
+      areEqual("entityReference", [{ entityId: "7", name: "A" }], ["7"])
+    ).toBe(true);
+  });
+
+  it("compares other kinds as normalized text", () => {
+    expect(areEqual("enum", "In Stock", "in stock")).toBe(true);
+    expect(areEqual("text", "Hello, world", "hello world!")).toBe(true);
+  });
+});
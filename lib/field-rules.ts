@@ -0,0 +1,192 @@
+import type { YextEntity, ConflictRule, FieldKind } from "@/lib/types";
+import { normalizeString } from "@/lib/text-utils";
+import { parsePhone, getPhoneRegion } from "@/lib/phone";
+import { canonicalizeUrl } from "@/lib/url";
+import { extractDates, doDatesConflict } from "@/lib/dates";
+import {
+  extractQuantities,
+  doQuantitiesConflict,
+  normalizeNumber,
+  type QuantityMention,
+} from "@/lib/quantities";
+import { formatFieldValue } from "@/lib/field-discovery";
+import { getComparedFields } from "@/lib/detection-profile";
+import { combineConfidences } from "@/lib/scoring";
+import {
+  LOCATION_ENTITY_TYPES,
+  findEvidence,
+  getStrongestEvidence,
+  toConflictValue,
+} from "@/lib/conflict-rules";
+
+// Kinds whose values are prose, compared for contradictions rather than
+// equality
+export const TEXT_FIELD_KINDS: FieldKind[] = ["text", "richText"];
+
+// A price or other amount; bare numbers form their own dimension
+function readAmount(text: string): QuantityMention | undefined {
+  const [quantity] = extractQuantities(text);
+  if (quantity) return quantity;
+
+  const match = text.match(/-?\d[\d.,]*/);
+  if (!match) return undefined;
+  const value = parseFloat(normalizeNumber(match[0]));
+  if (isNaN(value)) return undefined;
+  return {
+    start: match.index!,
+    end: match.index! + match[0].length,
+    text: match[0],
+    dimension: "number",
+    unit: "",
+    min: value,
+    max: value,
+  };
+}
+
+// Order-insensitive key of a list; linked entities are compared by id
+function getListKey(value: unknown): string {
+  const items = Array.isArray(value) ? value : [value];
+  return items
+    .map((item) => {
+      if (typeof item === "object" && item !== null) {
+        const { entityId, id } = item as Record<string, unknown>;
+        if (entityId ?? id) return String(entityId ?? id);
+      }
+      return normalizeString(formatFieldValue(item));
+    })
+    .sort()
+    .join("\n");
+}
+
+function getPhoneNumber(text: string, entity: YextEntity): string {
+  const phone = parsePhone(text, getPhoneRegion(entity));
+  return phone.extension
+    ? `${phone.number};ext=${phone.extension}`
+    : phone.number;
+}
+
+// Whether two values of a compared field say the same thing, read as the
+// field's kind: phone numbers in E.164, canonical URLs, amounts within the
+// profile's tolerance, overlapping dates and lists in any order
+export function areFieldValuesEqual(
+  kind: FieldKind,
+  entity1: YextEntity,
+  entity2: YextEntity,
+  field: string,
+  tolerance: number
+): boolean {
+  const [value1, value2] = [entity1[field], entity2[field]];
+  const [text1, text2] = [formatFieldValue(value1), formatFieldValue(value2)];
+
+  switch (kind) {
+    case "phone":
+      return getPhoneNumber(text1, entity1) === getPhoneNumber(text2, entity2);
+    case "url":
+      return canonicalizeUrl(text1) === canonicalizeUrl(text2);
+    case "number": {
+      const [amount1, amount2] = [readAmount(text1), readAmount(text2)];
+      if (amount1 && amount2) {
+        return !doQuantitiesConflict(amount1, amount2, tolerance);
+      }
+      break;
+    }
+    case "date": {
+      const [[date1], [date2]] = [entity1, entity2].map((entity, i) =>
+        extractDates([text1, text2][i], {
+          referenceDate: entity.meta?.timestamp,
+          language: entity.meta?.language,
+        })
+      );
+      if (date1 && date2) return !doDatesConflict(date1, date2);
+      break;
+    }
+    case "list":
+    case "entityReference":
+      return getListKey(value1) === getListKey(value2);
+  }
+  return normalizeString(text1) === normalizeString(text2);
+}
+
+// Similarly named entities should agree on the fields opted into comparison
+export const fieldMismatchRule: ConflictRule = {
+  id: "field_mismatch",
+  name: "Compared field mismatch",
+  description:
+    "Similarly named entities with different or contradictory values in a field opted into comparison",
+  excludedEntityTypes: LOCATION_ENTITY_TYPES,
+  scope: "pair",
+  usesNameSimilarity: true,
+  evaluate([entity1, entity2], context) {
+    const { profile } = context;
+    const nameSimilarity = context.nameSimilarity ?? 0;
+    if (nameSimilarity <= profile.nameSimilarityThreshold) return [];
+    const similarityPercent = Math.round(nameSimilarity * 100);
+
+    return getComparedFields(profile, context.entityType).flatMap(
+      ({ field, kind }) => {
+        const text1 = formatFieldValue(entity1[field]);
+        const text2 = formatFieldValue(entity2[field]);
+        if (!text1 || !text2) return [];
+        if (
+          areFieldValuesEqual(
+            kind,
+            entity1,
+            entity2,
+            field,
+            profile.quantityTolerance
+          )
+        ) {
+          return [];
+        }
+
+        if (!TEXT_FIELD_KINDS.includes(kind)) {
+          return [
+            {
+              field,
+              values: [
+                toConflictValue(entity1, text1),
+                toConflictValue(entity2, text2),
+              ],
+              conflictType: "field_mismatch",
+              // A differing fact is likelier a mistake the more alike the names
+              confidence: 0.3 + 0.5 * nameSimilarity,
+              description: `${context.entityType} entities with similar names (${similarityPercent}% similar) have different ${field} values`,
+            },
+          ];
+        }
+
+        const evidence = findEvidence(entity1, text1, entity2, text2, profile);
+        const hasContradiction = evidence.length > 0;
+        // Shown by the aligned sentences of the strongest clash, like content
+        // contradictions
+        const strongest = getStrongestEvidence(evidence);
+        const [value1, value2] = strongest?.alignment
+          ? strongest.alignment.sentences.map((sentence) => sentence.text)
+          : [text1, text2].map((text) =>
+              text.length > 100 ? text.substring(0, 100) + "..." : text
+            );
+        return [
+          {
+            field,
+            values: [
+              { ...toConflictValue(entity1, value1), text: text1 },
+              { ...toConflictValue(entity2, value2), text: text2 },
+            ],
+            conflictType: hasContradiction
+              ? "field_contradiction"
+              : "field_conflict",
+            confidence: hasContradiction
+              ? combineConfidences(evidence.map((item) => item.confidence))
+              : 0.3 + 0.3 * nameSimilarity,
+            description: hasContradiction
+              ? `${context.entityType} entities with similar names (${similarityPercent}% similar) have contradictory ${field} content`
+              : `${context.entityType} entities with similar names (${similarityPercent}% similar) have different ${field} content`,
+            ...(hasContradiction && { evidence }),
+          },
+        ];
+      }
+    );
+  },
+};
+
+export const fieldRules: ConflictRule[] = [fieldMismatchRule];
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import type { YextEntity } from "@/lib/types";
+import {
+  localeContactMismatchRule,
+  localeContentMismatchRule,
+} from "@/lib/locale-rules";
+import { DEFAULT_DETECTION_PROFILE } from "@/lib/detection-profile";
+
+const context = { entityType: "faq", profile: DEFAULT_DETECTION_PROFILE };
+
+const profile = (
+  language: string,
+  answer: string,
+  fields: Partial<YextEntity> = {}
+): YextEntity => ({
+  id: "faq-1",
+  name: "Delivery",
+  meta: { id: "faq-1", entityType: "faq", language },
+  answer,
+  ...fields,
+});
+
+const compare = (primary: YextEntity, alternate: YextEntity) =>
+  localeContentMismatchRule.evaluate([primary, alternate], context);
+
+describe("localeContentMismatchRule", () => {
+  it("reads numeric dates in each language's order", () => {
+    expect(
+      compare(
+        profile("en", "Closed on 03/04/2024."),
+        profile("fr", "Fermé le 04/03/2024.")
+      )
+    ).toEqual([]);
+
+    const [mismatch] = compare(
+      profile("en", "Closed on 03/04/2024."),
+      profile("fr", "Fermé le 03/04/2024.")
+    );
+    expect(mismatch.values.map((value) => value.value)).toEqual([
+      "2024-03-04",
+      "2024-04-03",
+    ]);
+  });
+
+  it("reads 1.000 and 1,000 as the same number", () => {
+    expect(
+      compare(
+        profile("en", "Over 1,000 stores."),
+        profile("de", "Über 1.000 Filialen.")
+      )
+    ).toEqual([]);
+    expect(
+      compare(
+        profile("en", "Over 1,000 stores."),
+        profile("de", "Über 1.500 Filialen.")
+      )
+    ).toHaveLength(1);
+  });
+
+  it("compares prices by currency and amount", () => {
+    expect(
+      compare(
+        profile("en", "Delivery costs 12.50 EUR."),
+        profile("de", "Die Lieferung kostet €12,50.")
+      )
+    ).toEqual([]);
+
+    const [mismatch] = compare(
+      profile("en", "Delivery costs $10."),
+      profile("es", "La entrega cuesta $12.")
+    );
+    expect(mismatch.confidence).toBe(0.85);
+    expect(mismatch.description).toBe(
+      "Prices in the es answer differ from the en profile"
+    );
+  });
+
+  it("lists what only the primary and only the alternate contain", () => {
+    const [mismatch] = compare(
+      profile("en", "Delivery costs $10 within 5 miles."),
+      profile("es", "La entrega cuesta $12 dentro de 5 millas.")
+    );
+    expect(mismatch.values).toEqual([
+      { entityId: "faq-1", entityName: "Delivery (en)", value: "USD 10" },
+      { entityId: "faq-1", entityName: "Delivery (es)", value: "USD 12" },
+    ]);
+  });
+});
+
+describe("localeContactMismatchRule", () => {
+  it("flags a phone number that differs between profiles", () => {
+    const [mismatch, ...rest] = localeContactMismatchRule.evaluate(
+      [
+        profile("en", "", { mainPhone: "+1 217-555-0101" }),
+        profile("es", "", { mainPhone: "+1 217-555-0199" }),
+      ],
+      context
+    );
+    expect(rest).toEqual([]);
+    expect(mismatch.field).toBe("mainPhone");
+  });
+});
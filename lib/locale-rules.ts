@@ -0,0 +1,268 @@
+import type { YextEntity, ConflictRule, ConflictDetail } from "@/lib/types";
+import { extractTextContent } from "@/lib/text-utils";
+import { getPhoneKey } from "@/lib/phone";
+import { canonicalizeUrl } from "@/lib/url";
+import { getFieldPriority, getComparedFields } from "@/lib/detection-profile";
+import { isMonthFirstLanguage } from "@/lib/dates";
+import { CURRENCY_SYMBOLS, normalizeNumber } from "@/lib/quantities";
+import { formatFieldValue } from "@/lib/field-discovery";
+import { TEXT_FIELD_KINDS, areFieldValuesEqual } from "@/lib/field-rules";
+
+const NUMBER = "\\d[\\d.,]*\\d|\\d";
+const CURRENCY = "[$€£¥]|usd|eur|gbp|jpy";
+const PRICE_PATTERN = new RegExp(
+  `(${CURRENCY})\\s?(${NUMBER})|(${NUMBER})\\s?(${CURRENCY})(?![a-z])`,
+  "gi"
+);
+const ISO_DATE_PATTERN = /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/g;
+const NUMERIC_DATE_PATTERN = /\b(\d{1,2})[./](\d{1,2})[./](\d{4})\b/g;
+const NUMBER_PATTERN = new RegExp(NUMBER, "g");
+
+// Values that must not change when an entity is translated
+interface LocaleInvariants {
+  prices: Set<string>;
+  dates: Set<string>;
+  numbers: Set<string>;
+}
+
+function toIsoDate(year: string, month: string, day: string): string {
+  return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+}
+
+function extractInvariants(text: string, language: string): LocaleInvariants {
+  const invariants: LocaleInvariants = {
+    prices: new Set(),
+    dates: new Set(),
+    numbers: new Set(),
+  };
+  const monthFirst = isMonthFirstLanguage(language);
+
+  // Dates and prices are removed once read so their digits are not counted again
+  let rest = text
+    .replace(ISO_DATE_PATTERN, (_, year, month, day) => {
+      invariants.dates.add(toIsoDate(year, month, day));
+      return " ";
+    })
+    .replace(NUMERIC_DATE_PATTERN, (_, first, second, year) => {
+      invariants.dates.add(
+        monthFirst
+          ? toIsoDate(year, first, second)
+          : toIsoDate(year, second, first)
+      );
+      return " ";
+    });
+
+  rest = rest.replace(
+    PRICE_PATTERN,
+    (_, symbol1, amount1, amount2, symbol2) => {
+      const currency = CURRENCY_SYMBOLS[(symbol1 || symbol2).toLowerCase()];
+      invariants.prices.add(
+        `${currency} ${normalizeNumber(amount1 || amount2)}`
+      );
+      return " ";
+    }
+  );
+
+  for (const match of rest.match(NUMBER_PATTERN) || []) {
+    invariants.numbers.add(normalizeNumber(match));
+  }
+  return invariants;
+}
+
+function getLanguage(entity: YextEntity): string {
+  return entity.meta?.language || "unknown";
+}
+
+// Like toConflictValue, with the profile's language in the entity name
+function toLocaleValue(
+  entity: YextEntity,
+  value: string
+): ConflictDetail["values"][number] {
+  return {
+    entityId: entity.meta?.id || entity.id || "unknown",
+    entityName: `${entity.name || "Unknown Entity"} (${getLanguage(entity)})`,
+    value,
+  };
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function difference(a: Set<string>, b: Set<string>): string[] {
+  return Array.from(a).filter((value) => !b.has(value));
+}
+
+// Phone numbers and website URLs are the same in every language
+export const localeContactMismatchRule: ConflictRule = {
+  id: "locale_contact_mismatch",
+  name: "Contact details differ between locales",
+  description:
+    "Language profiles of one entity with different phone numbers or website URLs",
+  scope: "locale",
+  evaluate(profiles) {
+    const fields = [
+      {
+        field: "mainPhone",
+        label: "phone number",
+        key: (entity: YextEntity) => getPhoneKey(entity),
+      },
+      {
+        field: "websiteUrl",
+        label: "website URL",
+        key: (entity: YextEntity) =>
+          entity.websiteUrl ? canonicalizeUrl(entity.websiteUrl) : "",
+      },
+    ];
+
+    return fields.flatMap(({ field, label, key }) => {
+      const withValue = profiles.filter((entity) => key(entity));
+      if (new Set(withValue.map(key)).size < 2) return [];
+
+      return [
+        {
+          field,
+          values: withValue.map((entity) =>
+            toLocaleValue(
+              entity,
+              String((entity as Record<string, unknown>)[field])
+            )
+          ),
+          conflictType: "locale_mismatch",
+          confidence: 0.6,
+          description: `The ${label} differs between the ${withValue
+            .map(getLanguage)
+            .join(", ")} profiles`,
+        },
+      ];
+    });
+  },
+};
+
+// Prices, dates and other numbers in translated text should match the primary profile
+export const localeContentMismatchRule: ConflictRule = {
+  id: "locale_content_mismatch",
+  name: "Facts differ between locales",
+  description:
+    "Translated text whose prices, dates or numbers differ from the primary language profile",
+  scope: "locale",
+  evaluate([primary, ...alternates], context) {
+    const fields = [
+      "answer",
+      ...getFieldPriority(context.profile, context.entityType),
+    ];
+
+    return fields.flatMap((field) => {
+      const primaryText = extractTextContent(
+        (primary as Record<string, unknown>)[field]
+      );
+      if (!primaryText) return [];
+      const primaryInvariants = extractInvariants(
+        primaryText,
+        getLanguage(primary)
+      );
+
+      return alternates.flatMap((alternate) => {
+        const text = extractTextContent(
+          (alternate as Record<string, unknown>)[field]
+        );
+        if (!text) return [];
+        const invariants = extractInvariants(text, getLanguage(alternate));
+
+        const kinds = (["prices", "dates", "numbers"] as const).filter(
+          (kind) =>
+            difference(primaryInvariants[kind], invariants[kind]).length > 0 ||
+            difference(invariants[kind], primaryInvariants[kind]).length > 0
+        );
+        if (kinds.length === 0) return [];
+
+        return [
+          {
+            field,
+            values: [
+              toLocaleValue(
+                primary,
+                kinds
+                  .flatMap((kind) =>
+                    difference(primaryInvariants[kind], invariants[kind])
+                  )
+                  .join(", ") || "(none)"
+              ),
+              toLocaleValue(
+                alternate,
+                kinds
+                  .flatMap((kind) =>
+                    difference(invariants[kind], primaryInvariants[kind])
+                  )
+                  .join(", ") || "(none)"
+              ),
+            ],
+            conflictType: "locale_mismatch",
+            // Prices are never translated; other numbers may be spelled out
+            confidence: kinds.includes("prices") ? 0.85 : 0.5,
+            description: `${capitalize(
+              kinds.join(" and ")
+            )} in the ${getLanguage(
+              alternate
+            )} ${field} differ from the ${getLanguage(primary)} profile`,
+          },
+        ];
+      });
+    });
+  },
+};
+
+// Compared fields other than text (prices, dates, options, links) are not
+// translated, so every language profile should hold the primary's value
+export const localeFieldMismatchRule: ConflictRule = {
+  id: "locale_field_mismatch",
+  name: "Compared fields differ between locales",
+  description:
+    "Language profiles of one entity with different values in a non-text field opted into comparison",
+  scope: "locale",
+  evaluate([primary, ...alternates], context) {
+    return getComparedFields(context.profile, context.entityType)
+      .filter(({ kind }) => !TEXT_FIELD_KINDS.includes(kind))
+      .flatMap(({ field, kind }) => {
+        const primaryValue = formatFieldValue(primary[field]);
+        if (!primaryValue) return [];
+
+        return alternates.flatMap((alternate) => {
+          const value = formatFieldValue(alternate[field]);
+          if (
+            !value ||
+            areFieldValuesEqual(
+              kind,
+              primary,
+              alternate,
+              field,
+              context.profile.quantityTolerance
+            )
+          ) {
+            return [];
+          }
+
+          return [
+            {
+              field,
+              values: [
+                toLocaleValue(primary, primaryValue),
+                toLocaleValue(alternate, value),
+              ],
+              conflictType: "locale_mismatch",
+              confidence: 0.6,
+              description: `The ${getLanguage(
+                alternate
+              )} ${field} differs from the ${getLanguage(primary)} profile`,
+            },
+          ];
+        });
+      });
+  },
+};
+
+export const localeRules: ConflictRule[] = [
+  localeContactMismatchRule,
+  localeContentMismatchRule,
+  localeFieldMismatchRule,
+];
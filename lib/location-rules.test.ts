@@ -0,0 +1,105 @@
+import { describe, expect, it, vi } from "vitest";
+import type { YextEntity } from "@/lib/types";
+import { detectConflicts } from "@/lib/conflict-detector";
+
+vi.spyOn(console, "log").mockImplementation(() => {});
+
+const branch = (
+  id: string,
+  line1: string,
+  city: string,
+  mainPhone: string
+): YextEntity => ({
+  id,
+  name: "Joe's Coffee",
+  meta: { id, entityType: "location" },
+  address: { line1, city, region: "IL", countryCode: "US" },
+  mainPhone,
+});
+
+const getDetails = (entities: YextEntity[], ruleId: string) =>
+  detectConflicts(entities)
+    .flatMap((conflict) => conflict.conflictDetails)
+    .filter((detail) => detail.ruleId === ruleId);
+
+describe("locationAddressMismatchRule", () => {
+  it("flags same-named locations in different cities with low severity", () => {
+    const [mismatch, ...rest] = getDetails(
+      [
+        branch("1", "100 Main St", "Springfield", "(217) 555-0101"),
+        branch("2", "200 Oak Ave", "Chicago", "(312) 555-0102"),
+      ],
+      "location_address_mismatch"
+    );
+    expect(rest).toEqual([]);
+    expect(mismatch.severity).toBe("low");
+  });
+
+  it("is more confident for a shared city or phone number", () => {
+    const [sameCity] = getDetails(
+      [
+        branch("1", "100 Main St", "Springfield", "(217) 555-0101"),
+        branch("2", "200 Oak Ave", "Springfield", "(217) 555-0102"),
+      ],
+      "location_address_mismatch"
+    );
+    expect(sameCity.severity).toBe("medium");
+
+    const [samePhone] = getDetails(
+      [
+        branch("1", "100 Main St", "Springfield", "(217) 555-0101"),
+        branch("2", "200 Oak Ave", "Chicago", "217-555-0101"),
+      ],
+      "location_address_mismatch"
+    );
+    expect(samePhone.severity).toBe("high");
+    expect(samePhone.confidence).toBeGreaterThan(sameCity.confidence);
+    expect(samePhone.description).toContain("phone number");
+  });
+});
+
+describe("locationHoursMismatchRule", () => {
+  const withHours = (id: string, start: string): YextEntity => ({
+    ...branch(id, "100 Main St", "Springfield", "(217) 555-0101"),
+    hours: { monday: { openIntervals: [{ start, end: "17:00" }] } },
+  });
+
+  it("treats 9:00 and 09:00 as the same time", () => {
+    expect(
+      getDetails(
+        [withHours("1", "9:00"), withHours("2", "09:00")],
+        "location_hours_mismatch"
+      )
+    ).toEqual([]);
+  });
+
+  it("flags different opening times", () => {
+    const [mismatch] = getDetails(
+      [withHours("1", "9:00"), withHours("2", "10:00")],
+      "location_hours_mismatch"
+    );
+    expect(mismatch.description).toContain("monday");
+  });
+});
+
+describe("locationDuplicatePhoneRule", () => {
+  it("reports a phone shared too widely to pair as one group", () => {
+    const stores = Array.from({ length: 501 }, (_, i) => ({
+      ...branch(
+        String(i),
+        `${i} Main St`,
+        i % 2 ? "Springfield" : "Chicago",
+        "(800) 555-0100"
+      ),
+      name: `Store ${i}`,
+    }));
+    const conflicts = detectConflicts(stores).filter((conflict) =>
+      conflict.conflictDetails.some(
+        (detail) => detail.ruleId === "location_duplicate_phone"
+      )
+    );
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].entities).toHaveLength(501);
+    expect(conflicts[0].conflictDetails[0].values).toHaveLength(501);
+  });
+});
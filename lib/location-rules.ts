@@ -0,0 +1,371 @@
+import type {
+  YextEntity,
+  ConflictRule,
+  Coordinate,
+  Hours,
+  Weekday,
+} from "@/lib/types";
+import { normalizeString } from "@/lib/text-utils";
+import { getPhoneKey } from "@/lib/phone";
+import { canonicalizeUrl } from "@/lib/url";
+import {
+  areAddressesEquivalent,
+  getAddressKey,
+  normalizeAddressParts,
+} from "@/lib/address";
+import { LOCATION_ENTITY_TYPES, toConflictValue } from "@/lib/conflict-rules";
+
+const WEEKDAYS: Weekday[] = [
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+  "sunday",
+];
+
+// Locations at the same address further apart than this have a bad geocode
+const MAX_GEOCODE_DISTANCE_KM = 1;
+
+function addressKey(entity: YextEntity): string[] {
+  const key = getAddressKey(entity.address);
+  return key ? [`address:${key}`] : [];
+}
+
+function formatAddress(entity: YextEntity): string {
+  const address = entity.address;
+  if (!address) return "";
+  return [
+    address.line1,
+    address.line2,
+    address.city,
+    address.region || address.state,
+    address.postalCode,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+// Pad a time to HH:MM so "9:00" and "09:00" compare equal
+function normalizeTime(time = ""): string {
+  const match = time.trim().match(/^(\d{1,2}):?(\d{2})$/);
+  return match ? `${match[1].padStart(2, "0")}:${match[2]}` : time.trim();
+}
+
+// Render one day's hours, e.g. "09:00-12:00, 13:00-17:00" or "closed"
+function formatDayHours(hours: Hours, day: Weekday): string {
+  const dayHours = hours[day];
+  if (!dayHours || dayHours.isClosed) return "closed";
+  return (dayHours.openIntervals || [])
+    .map(
+      (interval) =>
+        `${normalizeTime(interval.start)}-${normalizeTime(interval.end)}`
+    )
+    .join(", ");
+}
+
+function formatHours(hours: Hours): string {
+  return WEEKDAYS.map(
+    (day) => `${day.substring(0, 3)} ${formatDayHours(hours, day)}`
+  ).join("; ");
+}
+
+function getCoordinate(entity: YextEntity): Coordinate | undefined {
+  const coordinate = entity.yextDisplayCoordinate || entity.geocodedCoordinate;
+  return coordinate?.latitude !== undefined &&
+    coordinate?.longitude !== undefined
+    ? coordinate
+    : undefined;
+}
+
+// Great-circle distance in kilometres (haversine)
+function distanceKm(a: Coordinate, b: Coordinate): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude! - a.latitude!);
+  const dLon = toRadians(b.longitude! - a.longitude!);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude!)) *
+      Math.cos(toRadians(b.latitude!)) *
+      Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+function sameAddress(entity1: YextEntity, entity2: YextEntity): boolean {
+  return areAddressesEquivalent(entity1.address, entity2.address);
+}
+
+// Two locations at the same address should be the same business
+export const locationSameAddressRule: ConflictRule = {
+  id: "location_same_address",
+  name: "Locations at the same address",
+  description:
+    "Locations with the same normalized address but different names or phone numbers",
+  entityTypes: LOCATION_ENTITY_TYPES,
+  scope: "pair",
+  blockingKeys: addressKey,
+  evaluate([entity1, entity2]) {
+    if (!sameAddress(entity1, entity2)) return [];
+
+    const differentName =
+      normalizeString(entity1.name || "") !==
+      normalizeString(entity2.name || "");
+    const phone1 = getPhoneKey(entity1);
+    const phone2 = getPhoneKey(entity2);
+    const differentPhone = !!phone1 && !!phone2 && phone1 !== phone2;
+    if (!differentName && !differentPhone) return [];
+
+    const differences = [
+      differentName && "names",
+      differentPhone && "phone numbers",
+    ].filter(Boolean);
+
+    return [
+      {
+        field: "address",
+        values: [
+          toConflictValue(entity1, formatAddress(entity1)),
+          toConflictValue(entity2, formatAddress(entity2)),
+        ],
+        conflictType: "similar_address",
+        confidence: differentName && differentPhone ? 0.8 : 0.55,
+        description: `Locations at the same address have different ${differences.join(
+          " and "
+        )}`,
+      },
+    ];
+  },
+};
+
+// The same location name should not point at two addresses. Chains reuse
+// names across cities, so a pair sharing a phone or website (or, failing
+// that, a city) is more likely one location listed twice.
+export const locationAddressMismatchRule: ConflictRule = {
+  id: "location_address_mismatch",
+  name: "Same location, different address",
+  description:
+    "Locations with the same name but different addresses, most likely when they share a phone, website or city",
+  entityTypes: LOCATION_ENTITY_TYPES,
+  scope: "pair",
+  // Name plus contact keys keep listings sharing a phone or website paired
+  // even when a chain's name alone is shared too widely to pair
+  blockingKeys: (entity) => {
+    if (!entity.name) return [];
+    const name = `name:${normalizeString(entity.name)}`;
+    const phone = getPhoneKey(entity);
+    return [
+      name,
+      ...(phone ? [`${name}|phone:${phone}`] : []),
+      ...(entity.websiteUrl
+        ? [`${name}|url:${canonicalizeUrl(entity.websiteUrl)}`]
+        : []),
+    ];
+  },
+  evaluate([entity1, entity2]) {
+    if (
+      !entity1.address?.line1 ||
+      !entity2.address?.line1 ||
+      normalizeString(entity1.name || "") !==
+        normalizeString(entity2.name || "") ||
+      sameAddress(entity1, entity2)
+    )
+      return [];
+
+    const city1 = normalizeAddressParts(entity1.address)?.city;
+    const sameCity =
+      !!city1 && city1 === normalizeAddressParts(entity2.address)?.city;
+    const phone1 = getPhoneKey(entity1);
+    const samePhone = !!phone1 && phone1 === getPhoneKey(entity2);
+    const sameWebsite =
+      !!entity1.websiteUrl &&
+      !!entity2.websiteUrl &&
+      canonicalizeUrl(entity1.websiteUrl) ===
+        canonicalizeUrl(entity2.websiteUrl);
+
+    const shared = [
+      sameCity && "city",
+      samePhone && "phone number",
+      sameWebsite && "website",
+    ].filter(Boolean);
+
+    return [
+      {
+        field: "address",
+        values: [
+          toConflictValue(entity1, formatAddress(entity1)),
+          toConflictValue(entity2, formatAddress(entity2)),
+        ],
+        conflictType: "address_mismatch",
+        // A shared phone or website says more than a shared city, since
+        // chains often have several branches in one city
+        confidence: Math.min(
+          0.3 +
+            (sameCity ? 0.2 : 0) +
+            (samePhone ? 0.45 : 0) +
+            (sameWebsite ? 0.4 : 0),
+          0.95
+        ),
+        description:
+          shared.length > 0
+            ? `Locations with the same name and ${shared.join(
+                " and "
+              )} have different addresses`
+            : "Locations with the same name have different addresses",
+      },
+    ];
+  },
+};
+
+// Listings for the same address should publish the same opening hours
+export const locationHoursMismatchRule: ConflictRule = {
+  id: "location_hours_mismatch",
+  name: "Conflicting opening hours",
+  description: "Locations at the same address with different opening hours",
+  entityTypes: LOCATION_ENTITY_TYPES,
+  scope: "pair",
+  blockingKeys: addressKey,
+  evaluate([entity1, entity2]) {
+    if (!entity1.hours || !entity2.hours || !sameAddress(entity1, entity2))
+      return [];
+
+    const differingDays = WEEKDAYS.filter(
+      (day) =>
+        formatDayHours(entity1.hours!, day) !==
+        formatDayHours(entity2.hours!, day)
+    );
+    if (differingDays.length === 0) return [];
+
+    return [
+      {
+        field: "hours",
+        values: [
+          toConflictValue(entity1, formatHours(entity1.hours)),
+          toConflictValue(entity2, formatHours(entity2.hours)),
+        ],
+        conflictType: "hours_mismatch",
+        // A single differing day is often a pending holiday-hours edit
+        confidence: Math.min(0.45 + 0.05 * differingDays.length, 0.8),
+        description: `Locations at the same address have different hours on ${differingDays.join(
+          ", "
+        )}`,
+      },
+    ];
+  },
+};
+
+// Listings for the same address should be pinned at the same place on the map
+export const locationGeocodeMismatchRule: ConflictRule = {
+  id: "location_geocode_mismatch",
+  name: "Conflicting coordinates",
+  description: `Locations at the same address whose coordinates are more than ${MAX_GEOCODE_DISTANCE_KM} km apart`,
+  entityTypes: LOCATION_ENTITY_TYPES,
+  scope: "pair",
+  blockingKeys: addressKey,
+  evaluate([entity1, entity2]) {
+    const coordinate1 = getCoordinate(entity1);
+    const coordinate2 = getCoordinate(entity2);
+    if (!coordinate1 || !coordinate2 || !sameAddress(entity1, entity2))
+      return [];
+
+    const distance = distanceKm(coordinate1, coordinate2);
+    if (distance <= MAX_GEOCODE_DISTANCE_KM) return [];
+
+    return [
+      {
+        field: "geocodedCoordinate",
+        values: [
+          toConflictValue(
+            entity1,
+            `${coordinate1.latitude}, ${coordinate1.longitude}`
+          ),
+          toConflictValue(
+            entity2,
+            `${coordinate2.latitude}, ${coordinate2.longitude}`
+          ),
+        ],
+        conflictType: "geocode_mismatch",
+        confidence: Math.min(0.5 + distance / 50, 0.9),
+        description: `Locations at the same address are pinned ${distance.toFixed(
+          1
+        )} km apart`,
+      },
+    ];
+  },
+};
+
+// A phone number shared by locations in different cities is likely stale
+export const locationDuplicatePhoneRule: ConflictRule = {
+  id: "location_duplicate_phone",
+  name: "Phone shared across cities",
+  description: "Locations in different cities sharing the same main phone",
+  entityTypes: LOCATION_ENTITY_TYPES,
+  scope: "pair",
+  blockingKeys: (entity) => {
+    const phone = getPhoneKey(entity);
+    return phone ? [`phone:${phone}`] : [];
+  },
+  evaluate([entity1, entity2]) {
+    const phone = getPhoneKey(entity1);
+    if (
+      !phone ||
+      phone !== getPhoneKey(entity2) ||
+      !entity1.address?.city ||
+      !entity2.address?.city ||
+      normalizeString(entity1.address.city) ===
+        normalizeString(entity2.address.city)
+    )
+      return [];
+
+    return [
+      {
+        field: "mainPhone",
+        values: [
+          toConflictValue(
+            entity1,
+            `${entity1.mainPhone} (${entity1.address.city})`
+          ),
+          toConflictValue(
+            entity2,
+            `${entity2.mainPhone} (${entity2.address.city})`
+          ),
+        ],
+        conflictType: "phone_mismatch",
+        confidence: 0.5,
+        description:
+          "Locations in different cities share the same phone number",
+      },
+    ];
+  },
+  evaluateBlock(entities) {
+    const cities = new Set(
+      entities
+        .filter((entity) => entity.address?.city)
+        .map((entity) => normalizeString(entity.address!.city!))
+    );
+    if (cities.size < 2) return [];
+
+    return [
+      {
+        field: "mainPhone",
+        values: entities.map((entity) =>
+          toConflictValue(
+            entity,
+            `${entity.mainPhone} (${entity.address?.city || "no city"})`
+          )
+        ),
+        conflictType: "phone_mismatch",
+        confidence: 0.5,
+        description: `${entities.length} locations in ${cities.size} cities share the same phone number`,
+      },
+    ];
+  },
+};
+
+export const locationRules: ConflictRule[] = [
+  locationSameAddressRule,
+  locationAddressMismatchRule,
+  locationHoursMismatchRule,
+  locationGeocodeMismatchRule,
+  locationDuplicatePhoneRule,
+];
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { matchQuestionPassages } from "@/lib/passage-matching";
+
+const texts = [
+  // A location description
+  "Visit our downtown store.\n\nReturns\n\nWe accept returns within 30 days of purchase with a receipt.",
+  // A product description
+  "The blender has a 1200 watt motor and a glass jar.",
+];
+
+describe("matchQuestionPassages", () => {
+  it("matches a question with the passage on its topic", () => {
+    const matches = matchQuestionPassages(
+      ["How many days do I have to make returns?"],
+      texts,
+      { threshold: 0.5 }
+    );
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0].question).toBe(0);
+    expect(matches[0].text).toBe(0);
+    // The heading is read with the paragraph it introduces
+    expect(matches[0].passage.text).toBe(
+      "Returns\n\nWe accept returns within 30 days of purchase with a receipt."
+    );
+    expect(
+      texts[0].substring(matches[0].passage.start, matches[0].passage.end)
+    ).toBe(matches[0].passage.text);
+  });
+
+  it("does not match unrelated passages", () => {
+    expect(
+      matchQuestionPassages(["Do you offer gift wrapping?"], texts, {
+        threshold: 0.5,
+      })
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,128 @@
+import { splitParagraphs, type TextSegment } from "@/lib/rich-text";
+import { getQuestionTokens } from "@/lib/faq-clustering";
+
+export interface PassageMatchOptions {
+  // Minimum rarity-weighted share (0-1) of a question's keywords a passage
+  // must contain
+  threshold: number;
+  // Entities matched per question, best first
+  maxMatches?: number;
+  // Keywords found in more passages than this are not used to find matches
+  maxBlockSize?: number;
+}
+
+export interface PassageMatch {
+  // Indexes of the question and of the text in the lists given
+  question: number;
+  text: number;
+  // Passage of the text, with offsets in that text
+  passage: TextSegment;
+  // Rarity-weighted share (0-1) of the question's keywords in the passage
+  similarity: number;
+}
+
+const DEFAULT_MAX_MATCHES = 5;
+const DEFAULT_MAX_BLOCK_SIZE = 500;
+// Paragraphs this short (headings, labels) are read with the paragraph
+// after them, which they usually introduce
+const MAX_HEADING_WORDS = 8;
+
+interface Passage {
+  text: number;
+  segment: TextSegment;
+  tokens: Set<string>;
+}
+
+function getPassages(text: string, index: number): Passage[] {
+  const paragraphs = splitParagraphs(text);
+  const isHeading = (paragraph?: TextSegment) =>
+    !!paragraph && paragraph.text.split(/\s+/).length <= MAX_HEADING_WORDS;
+
+  const passages: Passage[] = [];
+  paragraphs.forEach((paragraph, i) => {
+    // A heading is read as part of the paragraph it introduces
+    const next = paragraphs[i + 1];
+    if (isHeading(paragraph) && next && !isHeading(next)) return;
+    const previous = paragraphs[i - 1];
+    const start =
+      isHeading(previous) && !isHeading(paragraph)
+        ? previous.start
+        : paragraph.start;
+    const segment = {
+      start,
+      end: paragraph.end,
+      text: text.substring(start, paragraph.end),
+    };
+    passages.push({
+      text: index,
+      segment,
+      tokens: getQuestionTokens(segment.text),
+    });
+  });
+  return passages;
+}
+
+// Find, for each question, the texts with a passage about the same topic:
+// passages containing most of the question's keywords, rare keywords
+// counting for more. Only the best passage of each text is kept.
+export function matchQuestionPassages(
+  questions: string[],
+  texts: string[],
+  options: PassageMatchOptions
+): PassageMatch[] {
+  const maxMatches = options.maxMatches ?? DEFAULT_MAX_MATCHES;
+  const maxBlockSize = options.maxBlockSize ?? DEFAULT_MAX_BLOCK_SIZE;
+  const passages = texts.flatMap(getPassages);
+
+  // Passages by keyword
+  const index = new Map<string, number[]>();
+  passages.forEach((passage, i) => {
+    for (const token of passage.tokens) {
+      if (!index.has(token)) index.set(token, []);
+      index.get(token)!.push(i);
+    }
+  });
+  const weight = (token: string) =>
+    Math.log(1 + passages.length / (index.get(token)?.length || 1));
+
+  const matches: PassageMatch[] = [];
+  questions.forEach((question, q) => {
+    const tokens = Array.from(getQuestionTokens(question));
+    const total = tokens.reduce((sum, token) => sum + weight(token), 0);
+    if (total === 0) return;
+
+    const candidates = new Set<number>();
+    for (const token of tokens) {
+      const postings = index.get(token) || [];
+      if (postings.length > maxBlockSize) continue;
+      postings.forEach((passage) => candidates.add(passage));
+    }
+
+    // Best passage per text
+    const best = new Map<number, PassageMatch>();
+    for (const i of candidates) {
+      const passage = passages[i];
+      const similarity =
+        tokens
+          .filter((token) => passage.tokens.has(token))
+          .reduce((sum, token) => sum + weight(token), 0) / total;
+      if (similarity < options.threshold) continue;
+      if (similarity > (best.get(passage.text)?.similarity ?? 0)) {
+        best.set(passage.text, {
+          question: q,
+          text: passage.text,
+          passage: passage.segment,
+          similarity,
+        });
+      }
+    }
+
+    matches.push(
+      ...Array.from(best.values())
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, maxMatches)
+    );
+  });
+
+  return matches;
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { parsePhone } from "@/lib/phone";
+
+describe("parsePhone", () => {
+  it("reads national numbers in the default region", () => {
+    expect(parsePhone("(555) 123-4567")).toEqual({
+      number: "+15551234567",
+      extension: "",
+      region: "US",
+      isValid: true,
+    });
+    expect(parsePhone("020 7946 0958", "GB").number).toBe("+442079460958");
+  });
+
+  it("reads international prefixes", () => {
+    for (const phone of [
+      "+44 20 7946 0958",
+      "0044 20 7946 0958",
+      "011 44 20 7946 0958",
+    ]) {
+      expect(parsePhone(phone)).toMatchObject({
+        number: "+442079460958",
+        region: "GB",
+        isValid: true,
+      });
+    }
+  });
+
+  it("splits off extensions", () => {
+    expect(parsePhone("555-123-4567 ext. 89")).toMatchObject({
+      number: "+15551234567",
+      extension: "89",
+    });
+    expect(parsePhone("+15551234567;ext=89").extension).toBe("89");
+  });
+
+  it("flags numbers the region cannot have", () => {
+    expect(parsePhone("123-4567").isValid).toBe(false);
+    expect(parsePhone("(155) 123-4567").isValid).toBe(false);
+  });
+});
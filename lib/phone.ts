@@ -0,0 +1,160 @@
+import type { YextEntity } from "@/lib/types";
+import { normalizeCountry } from "@/lib/address";
+
+// Region assumed for national-format numbers on entities without a country
+export const DEFAULT_PHONE_REGION = "US";
+
+interface PhoneRegion {
+  callingCode: string;
+  // National prefix dialled before the subscriber number, dropped in E.164
+  trunkPrefix?: string;
+  // Allowed national significant number lengths
+  minLength: number;
+  maxLength: number;
+}
+
+// Countries share a calling code with the first region listed for it
+const PHONE_REGIONS: Record<string, PhoneRegion> = {
+  US: { callingCode: "1", trunkPrefix: "1", minLength: 10, maxLength: 10 },
+  CA: { callingCode: "1", trunkPrefix: "1", minLength: 10, maxLength: 10 },
+  PR: { callingCode: "1", trunkPrefix: "1", minLength: 10, maxLength: 10 },
+  GB: { callingCode: "44", trunkPrefix: "0", minLength: 9, maxLength: 10 },
+  IE: { callingCode: "353", trunkPrefix: "0", minLength: 7, maxLength: 9 },
+  AU: { callingCode: "61", trunkPrefix: "0", minLength: 9, maxLength: 9 },
+  NZ: { callingCode: "64", trunkPrefix: "0", minLength: 8, maxLength: 10 },
+  DE: { callingCode: "49", trunkPrefix: "0", minLength: 6, maxLength: 13 },
+  FR: { callingCode: "33", trunkPrefix: "0", minLength: 9, maxLength: 9 },
+  ES: { callingCode: "34", minLength: 9, maxLength: 9 },
+  // Italian numbers keep their leading 0 after the calling code
+  IT: { callingCode: "39", minLength: 6, maxLength: 11 },
+  NL: { callingCode: "31", trunkPrefix: "0", minLength: 9, maxLength: 9 },
+  MX: { callingCode: "52", minLength: 10, maxLength: 10 },
+  JP: { callingCode: "81", trunkPrefix: "0", minLength: 9, maxLength: 10 },
+};
+
+const REGION_BY_CALLING_CODE = Object.entries(PHONE_REGIONS).reduce(
+  (acc, [region, { callingCode }]) => {
+    acc[callingCode] = acc[callingCode] || region;
+    return acc;
+  },
+  {} as Record<string, string>
+);
+
+// "x12", "ext. 12", "extension 12", "#12" or ";ext=12" at the end of the number
+const EXTENSION_PATTERN =
+  /(?:;ext=|\s*(?:ext\.?|extension|x|#)\s*)(\d{1,6})\s*$/i;
+
+export interface ParsedPhone {
+  // E.164 form, e.g. "+15551234567"; bare digits when the region is unknown
+  number: string;
+  extension: string;
+  // Region the number was parsed for, "" when unknown
+  region: string;
+  isValid: boolean;
+}
+
+function isValidNationalNumber(national: string, region: string): boolean {
+  const rules = PHONE_REGIONS[region];
+  if (national.length < rules.minLength || national.length > rules.maxLength) {
+    return false;
+  }
+  // North American area codes never start with 0 or 1
+  return rules.callingCode !== "1" || /^[2-9]/.test(national);
+}
+
+// Parse a phone number as written into E.164, using defaultRegion for
+// numbers without an international prefix
+export function parsePhone(
+  phone: string,
+  defaultRegion: string = DEFAULT_PHONE_REGION
+): ParsedPhone {
+  const extensionMatch = phone.match(EXTENSION_PATTERN);
+  const extension = extensionMatch ? extensionMatch[1] : "";
+  const main = extensionMatch
+    ? phone.substring(0, extensionMatch.index)
+    : phone;
+  const digits = main.replace(/[^\d]/g, "");
+
+  // "+44 ...", "0044 ..." and (from North America) "011 44 ..." are international
+  const international = main.trim().startsWith("+")
+    ? digits
+    : digits.startsWith("00")
+    ? digits.substring(2)
+    : digits.startsWith("011") &&
+      PHONE_REGIONS[defaultRegion]?.callingCode === "1"
+    ? digits.substring(3)
+    : null;
+
+  if (international !== null) {
+    for (let length = 1; length <= 3; length++) {
+      const region = REGION_BY_CALLING_CODE[international.substring(0, length)];
+      if (region) {
+        const national = international.substring(length);
+        return {
+          number: `+${international}`,
+          extension,
+          region,
+          isValid: isValidNationalNumber(national, region),
+        };
+      }
+    }
+    // Unknown calling code: only the E.164 length limits apply
+    return {
+      number: `+${international}`,
+      extension,
+      region: "",
+      isValid: international.length >= 8 && international.length <= 15,
+    };
+  }
+
+  const rules = PHONE_REGIONS[defaultRegion];
+  if (!rules) {
+    return {
+      number: digits,
+      extension,
+      region: "",
+      isValid: digits.length >= 4 && digits.length <= 15,
+    };
+  }
+
+  const national =
+    rules.trunkPrefix &&
+    digits.startsWith(rules.trunkPrefix) &&
+    digits.length > rules.minLength
+      ? digits.substring(rules.trunkPrefix.length)
+      : digits;
+
+  return {
+    number: `+${rules.callingCode}${national}`,
+    extension,
+    region: defaultRegion,
+    isValid: isValidNationalNumber(national, defaultRegion),
+  };
+}
+
+// The entity's own country decides how national-format numbers are read
+export function getPhoneRegion(entity: YextEntity): string {
+  return (
+    normalizeCountry(
+      entity.address?.countryCode ||
+        entity.address?.country ||
+        entity.meta?.countryCode
+    ) || DEFAULT_PHONE_REGION
+  );
+}
+
+export function parseEntityPhone(entity: YextEntity): ParsedPhone | null {
+  return entity.mainPhone
+    ? parsePhone(entity.mainPhone, getPhoneRegion(entity))
+    : null;
+}
+
+// Comparison key for an entity's main phone; "" when missing or invalid.
+// Different extensions on one main number are different lines.
+export function getPhoneKey(entity: YextEntity): string {
+  const phone = parseEntityPhone(entity);
+  if (!phone?.isValid) return "";
+  return phone.extension
+    ? `${phone.number};ext=${phone.extension}`
+    : phone.number;
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import {
+  extractSteps,
+  areStepsContradictory,
+  alignSteps,
+} from "@/lib/procedures";
+
+const summarize = (text: string) =>
+  extractSteps(text).map(
+    ({ action, object, negated }) =>
+      `${negated ? "not " : ""}${action} ${Array.from(object).join(" ")}`
+  );
+
+describe("extractSteps", () => {
+  it("reads numbered lists", () => {
+    expect(summarize("1. Open Settings\n2. Enable Wi-Fi\n3. Tap Save")).toEqual(
+      ["open settings", "enable wifi", "tap save"]
+    );
+  });
+
+  it("reads step markers and phrasal verbs", () => {
+    expect(summarize("Step 1: Turn on the router. Step 2: Sign in.")).toEqual([
+      "turn on router",
+      "sign in ",
+    ]);
+  });
+
+  it("reads sequencing words and negation", () => {
+    expect(
+      summarize(
+        "First, open the app. Then do not enable sync. Finally, restart it."
+      )
+    ).toEqual(["open app", "not enable sync", "restart "]);
+  });
+
+  it("finds no procedure in plain prose", () => {
+    expect(extractSteps("We are open daily.")).toEqual([]);
+  });
+});
+
+describe("areStepsContradictory", () => {
+  const [enable, disable, notEnable] = [
+    "1. Enable Wi-Fi\n2. Restart",
+    "1. Disable Wi-Fi\n2. Restart",
+    "1. Do not enable Wi-Fi\n2. Restart",
+  ].map((text) => extractSteps(text)[0]);
+
+  it("reports opposite actions and forbidden steps", () => {
+    expect(areStepsContradictory(enable, disable)).toBe(true);
+    expect(areStepsContradictory(enable, notEnable)).toBe(true);
+  });
+
+  it("does not report the same step", () => {
+    expect(areStepsContradictory(enable, enable)).toBe(false);
+  });
+});
+
+describe("alignSteps", () => {
+  it("pairs steps acting on the same thing", () => {
+    const steps1 = extractSteps(
+      "1. Open Settings\n2. Enable Wi-Fi\n3. Tap Save"
+    );
+    const steps2 = extractSteps("1. Disable Wi-Fi\n2. Open Settings");
+    expect(alignSteps(steps1, steps2)).toEqual([
+      [0, 1],
+      [1, 0],
+    ]);
+  });
+});
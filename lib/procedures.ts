@@ -0,0 +1,275 @@
+import { normalizeString, calculateSetOverlap } from "@/lib/text-utils";
+import { splitSentences } from "@/lib/rich-text";
+
+// Steps of a procedure, read from ordered lists, "Step N" markers or
+// sequencing words ("first", "then", "finally")
+
+export interface ProcedureStep {
+  // Character range of the step in the source text
+  start: number;
+  end: number;
+  text: string;
+  // Imperative verb, e.g. "enable" or "turn on"
+  action: string;
+  // Content words of what the action applies to
+  object: Set<string>;
+  // "Do not", "never" or "avoid" before the action
+  negated: boolean;
+}
+
+// Actions undoing each other; an action on one side contradicts any action
+// on the other
+const OPPOSITE_ACTIONS: Array<[string[], string[]]> = [
+  [
+    ["enable", "activate"],
+    ["disable", "deactivate"],
+  ],
+  [
+    ["turn on", "switch on"],
+    ["turn off", "switch off"],
+  ],
+  [
+    ["select", "check"],
+    ["deselect", "unselect", "uncheck", "clear"],
+  ],
+  [["open"], ["close"]],
+  [["start"], ["stop"]],
+  [
+    ["add", "insert"],
+    ["remove", "delete"],
+  ],
+  [["include"], ["exclude"]],
+  [
+    ["allow", "accept"],
+    ["block", "deny", "prevent", "reject", "decline"],
+  ],
+  [["show"], ["hide"]],
+  [["lock"], ["unlock"]],
+  [["install"], ["uninstall"]],
+  [["connect"], ["disconnect"]],
+  [
+    ["log in", "sign in"],
+    ["log out", "sign out"],
+  ],
+  [["save", "keep"], ["discard"]],
+];
+
+// Verbs forming one action with the particle after them ("turn on")
+const PHRASAL_VERBS = ["turn", "switch", "log", "sign"];
+const PARTICLES = ["on", "off", "in", "out", "up"];
+
+// Words that say nothing about what a step acts on
+const OBJECT_STOP_WORDS = new Set([
+  "a",
+  "an",
+  "the",
+  "your",
+  "my",
+  "our",
+  "this",
+  "that",
+  "it",
+  "to",
+  "on",
+  "in",
+  "of",
+  "for",
+  "from",
+  "with",
+  "and",
+  "or",
+  "then",
+  "button",
+  "option",
+]);
+
+const NUMBERED_STEP = /^[ \t]*(\d{1,3})[.)][ \t]+(.+)$/gm;
+const STEP_MARKER = /\bstep\s*(\d{1,3})\s*[:.)\-–]?\s*/gi;
+const SEQUENCE_WORD =
+  /^(?:first(?:ly)?|second(?:ly)?|third(?:ly)?|next|then|after that|afterwards|finally|lastly)\b[,:]?\s*/i;
+// Openers that start a sequence rather than continue one
+const SEQUENCE_START = /^(?:first(?:ly)?|to (?:start|begin))\b/i;
+// Clauses chained within one step ("open the app, then tap Settings")
+const CHAINED_STEP = /(?:,\s*|\s+and\s+|;\s*)then\s+/gi;
+const POLITE_PREFIX =
+  /^(?:please|you (?:should|must|can|need to|will need to|have to)|make sure (?:to|you)|be sure to|go ahead and)\s+/i;
+const NEGATION = /^(?:do not|don['’]?t|never|avoid)\s+/i;
+
+// Shortest object overlap (0-1) for two steps to be the same step
+const STEP_SIMILARITY = 0.5;
+// Whole-step word overlap (0-1) that aligns steps even with unrelated verbs
+const REWORDED_STEP_SIMILARITY = 0.6;
+
+// "clicking" -> "click", "stopping" -> "stop"
+function toBaseVerb(word: string): string {
+  if (!word.endsWith("ing") || word.length <= 5) return word;
+  const stem = word.slice(0, -3);
+  return /([^aeiou])\1$/.test(stem) ? stem.slice(0, -1) : stem;
+}
+
+function parseStep(
+  text: string,
+  start: number,
+  end: number
+): ProcedureStep | null {
+  let instruction = text
+    .substring(start, end)
+    .replace(STEP_MARKER, "")
+    .replace(/^\s*\d{1,3}[.)]\s+/, "")
+    .replace(SEQUENCE_WORD, "")
+    .replace(POLITE_PREFIX, "");
+  const negated = NEGATION.test(instruction);
+  instruction = instruction.replace(NEGATION, "");
+
+  const words = normalizeString(instruction).split(" ").filter(Boolean);
+  if (words.length === 0) return null;
+
+  let action = negated ? toBaseVerb(words[0]) : words[0];
+  let rest = words.slice(1);
+  if (PHRASAL_VERBS.includes(action) && PARTICLES.includes(rest[0])) {
+    action = `${action} ${rest[0]}`;
+    rest = rest.slice(1);
+  }
+
+  return {
+    start,
+    end,
+    text: text.substring(start, end),
+    action,
+    object: new Set(rest.filter((word) => !OBJECT_STOP_WORDS.has(word))),
+    negated,
+  };
+}
+
+// Split a range into the steps chained with "then" inside it
+function parseSteps(text: string, start: number, end: number): ProcedureStep[] {
+  const bounds = [start];
+  for (const match of text.substring(start, end).matchAll(CHAINED_STEP)) {
+    bounds.push(start + match.index!, start + match.index! + match[0].length);
+  }
+  bounds.push(end);
+
+  const steps: ProcedureStep[] = [];
+  for (let i = 0; i < bounds.length; i += 2) {
+    const [stepStart, stepEnd] = [bounds[i], bounds[i + 1]];
+    const trimmed = text.substring(stepStart, stepEnd).trimEnd();
+    const step = parseStep(
+      text,
+      stepStart,
+      stepStart + trimmed.replace(/[.;,]+$/, "").length
+    );
+    if (step) steps.push(step);
+  }
+  return steps;
+}
+
+// The procedure described in a text, or no steps when it has none. Numbered
+// list items and "Step N" markers are used when present, otherwise sentences
+// opening with a sequencing word (and the sentence the sequence continues).
+export function extractSteps(text: string): ProcedureStep[] {
+  const numbered = Array.from(text.matchAll(NUMBERED_STEP));
+  if (numbered.length >= 2) {
+    return numbered.flatMap((match) =>
+      parseSteps(text, match.index!, match.index! + match[0].length)
+    );
+  }
+
+  const markers = Array.from(text.matchAll(STEP_MARKER));
+  if (markers.length >= 2) {
+    return markers.flatMap((match, i) => {
+      const next = markers[i + 1]?.index ?? text.length;
+      const lineEnd = text.indexOf("\n\n", match.index!);
+      const end = lineEnd >= 0 && lineEnd < next ? lineEnd : next;
+      return parseSteps(text, match.index! + match[0].length, end);
+    });
+  }
+
+  const sentences = splitSentences(text);
+  const first = sentences.findIndex((sentence) =>
+    SEQUENCE_WORD.test(sentence.text)
+  );
+  if (first < 0) return [];
+  const sequenced = sentences.filter(
+    (sentence, i) =>
+      SEQUENCE_WORD.test(sentence.text) ||
+      (i === first - 1 && !SEQUENCE_START.test(sentences[first].text))
+  );
+  const steps = sequenced.flatMap((sentence) =>
+    parseSteps(text, sentence.start, sentence.end)
+  );
+  return steps.length >= 2 ? steps : [];
+}
+
+function getActionSide(action: string): [number, number] | null {
+  for (let i = 0; i < OPPOSITE_ACTIONS.length; i++) {
+    const side = OPPOSITE_ACTIONS[i].findIndex((actions) =>
+      actions.includes(action)
+    );
+    if (side >= 0) return [i, side];
+  }
+  return null;
+}
+
+// Whether one step undoes the other: opposite actions ("enable" vs
+// "disable"), or the same action done in one and forbidden in the other
+export function areStepsContradictory(
+  step1: ProcedureStep,
+  step2: ProcedureStep
+): boolean {
+  const side1 = getActionSide(step1.action);
+  const side2 = getActionSide(step2.action);
+  const sameAction =
+    step1.action === step2.action ||
+    (!!side1 && !!side2 && side1[0] === side2[0] && side1[1] === side2[1]);
+  const oppositeAction =
+    !!side1 && !!side2 && side1[0] === side2[0] && side1[1] !== side2[1];
+
+  if (sameAction) return step1.negated !== step2.negated;
+  return oppositeAction && step1.negated === step2.negated;
+}
+
+function getStepSimilarity(step1: ProcedureStep, step2: ProcedureStep): number {
+  const objectSimilarity = calculateSetOverlap(step1.object, step2.object);
+  const side1 = getActionSide(step1.action);
+  const side2 = getActionSide(step2.action);
+  const relatedActions =
+    step1.action === step2.action ||
+    (!!side1 && !!side2 && side1[0] === side2[0]);
+  if (relatedActions && objectSimilarity >= STEP_SIMILARITY) {
+    return objectSimilarity;
+  }
+
+  const wordSimilarity = calculateSetOverlap(
+    new Set([step1.action, ...step1.object]),
+    new Set([step2.action, ...step2.object])
+  );
+  return wordSimilarity >= REWORDED_STEP_SIMILARITY ? wordSimilarity : 0;
+}
+
+// Pair steps of two procedures that act on the same thing, most similar
+// first; each step is used at most once. Returns [index1, index2] pairs in
+// the order of the first procedure.
+export function alignSteps(
+  steps1: ProcedureStep[],
+  steps2: ProcedureStep[]
+): Array<[number, number]> {
+  const candidates: Array<[number, number, number]> = [];
+  steps1.forEach((step1, i) =>
+    steps2.forEach((step2, j) => {
+      const similarity = getStepSimilarity(step1, step2);
+      if (similarity > 0) candidates.push([i, j, similarity]);
+    })
+  );
+  candidates.sort((a, b) => b[2] - a[2]);
+
+  const used1 = new Set<number>();
+  const used2 = new Set<number>();
+  const pairs: Array<[number, number]> = [];
+  for (const [i, j] of candidates) {
+    if (used1.has(i) || used2.has(j)) continue;
+    used1.add(i);
+    used2.add(j);
+    pairs.push([i, j]);
+  }
+  return pairs.sort((a, b) => a[0] - b[0]);
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+  extractQuantities,
+  doQuantitiesConflict,
+  normalizeNumber,
+} from "@/lib/quantities";
+
+const describeAll = (text: string) =>
+  extractQuantities(text).map(
+    ({ dimension, min, max }) => `${dimension} ${min}-${max}`
+  );
+
+describe("extractQuantities", () => {
+  it("converts units to canonical ones", () => {
+    expect(describeAll("24 hours")).toEqual(["time 86400-86400"]);
+    expect(describeAll("1.5 km")).toEqual(["length 1500-1500"]);
+    expect(describeAll("3-5 days")).toEqual(["time 259200-432000"]);
+  });
+
+  it("reads prices with their currency", () => {
+    expect(describeAll("$19.99 or 20 EUR")).toEqual([
+      "currency:USD 19.99-19.99",
+      "currency:EUR 20-20",
+    ]);
+  });
+
+  it("keeps counted nouns apart", () => {
+    expect(describeAll("3 items")).toEqual(["count:item 3-3"]);
+  });
+
+  it("reads bounds as open ranges", () => {
+    const [upper] = extractQuantities("within 30 days");
+    expect(upper.bound).toBe("upper");
+    expect(upper.min).toBe(0);
+  });
+
+  it("does not read plural suffixes or glued letters as units", () => {
+    expect(extractQuantities("since the 1990s")).toEqual([]);
+    expect(extractQuantities("our 4G network")).toEqual([]);
+    expect(extractQuantities("10 m users")).toEqual([]);
+  });
+
+  it("accepts single-letter units set apart from the number", () => {
+    expect(describeAll("ready in 2 h")).toEqual(["time 7200-7200"]);
+    expect(describeAll("500 g")).toEqual(["mass 0.5-0.5"]);
+  });
+});
+
+describe("doQuantitiesConflict", () => {
+  const read = (text: string) => extractQuantities(text)[0];
+
+  it("allows rounding within the tolerance", () => {
+    expect(doQuantitiesConflict(read("1 month"), read("30 days"), 0.02)).toBe(
+      false
+    );
+  });
+
+  it("reports amounts outside the tolerance", () => {
+    expect(doQuantitiesConflict(read("3 days"), read("5 days"), 0.02)).toBe(
+      true
+    );
+  });
+
+  it("compares limits of the same kind by their values", () => {
+    expect(
+      doQuantitiesConflict(read("within 30 days"), read("within 14 days"))
+    ).toBe(true);
+  });
+
+  it("never compares different dimensions", () => {
+    expect(doQuantitiesConflict(read("3 days"), read("3 km"))).toBe(false);
+  });
+});
+
+describe("normalizeNumber", () => {
+  it("reads either decimal separator", () => {
+    expect(normalizeNumber("1,000.50")).toBe("1000.5");
+    expect(normalizeNumber("1.000,50")).toBe("1000.5");
+    expect(normalizeNumber("12,5")).toBe("12.5");
+  });
+});
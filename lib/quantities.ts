@@ -0,0 +1,320 @@
+// Quantities in free text, converted to canonical units so "24 hours" and
+// "1 day" compare equal and "3-5 days" is read as a range
+
+export interface QuantityMention {
+  // Character range of the mention in the source text
+  start: number;
+  end: number;
+  text: string;
+  // What is measured; only quantities of the same dimension are comparable.
+  // Currencies and counted nouns carry their unit ("currency:USD", "count:item").
+  dimension: string;
+  // Canonical unit the range is expressed in, e.g. "s", "m", "kg", "B", "%"
+  unit: string;
+  // Inclusive range in canonical units; equal for a single value
+  min: number;
+  max: number;
+  // Set when the value is a limit ("within 30 days", "at least 2 items")
+  bound?: "upper" | "lower";
+}
+
+export const CURRENCY_SYMBOLS: Record<string, string> = {
+  $: "USD",
+  "€": "EUR",
+  "£": "GBP",
+  "¥": "JPY",
+  usd: "USD",
+  eur: "EUR",
+  gbp: "GBP",
+  jpy: "JPY",
+  dollar: "USD",
+  dollars: "USD",
+  euro: "EUR",
+  euros: "EUR",
+};
+
+// Unit words mapped to [dimension, canonical unit, factor to the canonical
+// unit]. "s" and "m" are left out: "the 1990s" is not 1990 seconds and
+// "10 m" is as often a million as metres.
+const UNITS: Record<string, [string, string, number]> = {
+  second: ["time", "s", 1],
+  seconds: ["time", "s", 1],
+  sec: ["time", "s", 1],
+  secs: ["time", "s", 1],
+  minute: ["time", "s", 60],
+  minutes: ["time", "s", 60],
+  min: ["time", "s", 60],
+  mins: ["time", "s", 60],
+  hour: ["time", "s", 3600],
+  hours: ["time", "s", 3600],
+  hr: ["time", "s", 3600],
+  hrs: ["time", "s", 3600],
+  h: ["time", "s", 3600],
+  day: ["time", "s", 86400],
+  days: ["time", "s", 86400],
+  week: ["time", "s", 604800],
+  weeks: ["time", "s", 604800],
+  // Average month and year lengths, so "1 month" is close to "30 days"
+  month: ["time", "s", 2629800],
+  months: ["time", "s", 2629800],
+  year: ["time", "s", 31557600],
+  years: ["time", "s", 31557600],
+  yr: ["time", "s", 31557600],
+  yrs: ["time", "s", 31557600],
+  "%": ["percent", "%", 1],
+  percent: ["percent", "%", 1],
+  "per cent": ["percent", "%", 1],
+  mm: ["length", "m", 0.001],
+  millimeters: ["length", "m", 0.001],
+  millimetres: ["length", "m", 0.001],
+  cm: ["length", "m", 0.01],
+  centimeters: ["length", "m", 0.01],
+  centimetres: ["length", "m", 0.01],
+  meter: ["length", "m", 1],
+  meters: ["length", "m", 1],
+  metre: ["length", "m", 1],
+  metres: ["length", "m", 1],
+  km: ["length", "m", 1000],
+  kilometer: ["length", "m", 1000],
+  kilometers: ["length", "m", 1000],
+  kilometre: ["length", "m", 1000],
+  kilometres: ["length", "m", 1000],
+  inch: ["length", "m", 0.0254],
+  inches: ["length", "m", 0.0254],
+  ft: ["length", "m", 0.3048],
+  foot: ["length", "m", 0.3048],
+  feet: ["length", "m", 0.3048],
+  yd: ["length", "m", 0.9144],
+  yard: ["length", "m", 0.9144],
+  yards: ["length", "m", 0.9144],
+  mi: ["length", "m", 1609.344],
+  mile: ["length", "m", 1609.344],
+  miles: ["length", "m", 1609.344],
+  mg: ["mass", "kg", 0.000001],
+  milligrams: ["mass", "kg", 0.000001],
+  g: ["mass", "kg", 0.001],
+  gram: ["mass", "kg", 0.001],
+  grams: ["mass", "kg", 0.001],
+  kg: ["mass", "kg", 1],
+  kilogram: ["mass", "kg", 1],
+  kilograms: ["mass", "kg", 1],
+  lb: ["mass", "kg", 0.45359237],
+  lbs: ["mass", "kg", 0.45359237],
+  pound: ["mass", "kg", 0.45359237],
+  pounds: ["mass", "kg", 0.45359237],
+  oz: ["mass", "kg", 0.028349523125],
+  ounce: ["mass", "kg", 0.028349523125],
+  ounces: ["mass", "kg", 0.028349523125],
+  bytes: ["data", "B", 1],
+  kb: ["data", "B", 1e3],
+  kilobytes: ["data", "B", 1e3],
+  kib: ["data", "B", 1024],
+  mb: ["data", "B", 1e6],
+  megabytes: ["data", "B", 1e6],
+  mib: ["data", "B", 1024 ** 2],
+  gb: ["data", "B", 1e9],
+  gigabytes: ["data", "B", 1e9],
+  gib: ["data", "B", 1024 ** 3],
+  tb: ["data", "B", 1e12],
+  terabytes: ["data", "B", 1e12],
+  tib: ["data", "B", 1024 ** 4],
+};
+
+// Counted nouns; "3 items" and "3 steps" are different measurements
+const COUNT_NOUNS: Record<string, string> = {
+  time: "time",
+  times: "time",
+  unit: "unit",
+  units: "unit",
+  item: "item",
+  items: "item",
+  piece: "piece",
+  pieces: "piece",
+  step: "step",
+  steps: "step",
+  version: "version",
+  versions: "version",
+};
+
+// Words before a value that turn it into an open range
+const UPPER_BOUNDS = [
+  "up to",
+  "at most",
+  "within",
+  "no more than",
+  "less than",
+  "under",
+  "maximum of",
+];
+const LOWER_BOUNDS = ["at least", "more than", "over", "minimum of"];
+
+function alternation(words: string[]): string {
+  // Longest first so "mins" wins over "min"
+  return [...words]
+    .sort((a, b) => b.length - a.length)
+    .map((word) => word.replace(/[$%]/g, "\\$&"))
+    .join("|");
+}
+
+// Unit alternation; a single-letter unit must be separated from its number
+// by a space, so a letter glued to a number ("4G") is not read as a unit
+function unitAlternation(units: string[]): string {
+  return alternation(units)
+    .split("|")
+    .map((unit) => (/^[a-z]$/.test(unit) ? `(?<=\\s)${unit}` : unit))
+    .join("|");
+}
+
+const NUMBER = "\\d[\\d.,]*\\d|\\d";
+const RANGE_SEPARATOR = "\\s*(?:-|–|—|to)\\s*";
+const BOUND = `(?:\\b(${alternation([
+  ...UPPER_BOUNDS,
+  ...LOWER_BOUNDS,
+])})\\s+)?`;
+
+const UNIT_PATTERN = new RegExp(
+  `${BOUND}(${NUMBER})(?:${RANGE_SEPARATOR}(${NUMBER}))?(?:\\s*|-)(${unitAlternation(
+    [...Object.keys(UNITS), ...Object.keys(COUNT_NOUNS)]
+  )})(?![a-z])`,
+  "gi"
+);
+const BETWEEN_PATTERN = new RegExp(
+  `\\bbetween\\s+(${NUMBER})\\s+and\\s+(${NUMBER})\\s*(${unitAlternation([
+    ...Object.keys(UNITS),
+    ...Object.keys(COUNT_NOUNS),
+  ])})(?![a-z])`,
+  "gi"
+);
+const SYMBOL = "[$€£¥]|usd|eur|gbp|jpy";
+const PREFIX_PRICE_PATTERN = new RegExp(
+  `${BOUND}(${SYMBOL})\\s?(${NUMBER})(?:${RANGE_SEPARATOR}(?:${SYMBOL})?\\s?(${NUMBER}))?`,
+  "gi"
+);
+const SUFFIX_PRICE_PATTERN = new RegExp(
+  `${BOUND}(${NUMBER})(?:${RANGE_SEPARATOR}(${NUMBER}))?\\s?(${SYMBOL}|dollars?|euros?)(?![a-z])`,
+  "gi"
+);
+
+// Read "1,000.50", "1.000,50" and "12,5" the same way in every locale
+export function normalizeNumber(text: string): string {
+  const lastComma = text.lastIndexOf(",");
+  const lastDot = text.lastIndexOf(".");
+  let normalized: string;
+  if (lastComma >= 0 && lastDot >= 0) {
+    // Both separators: whichever comes last is the decimal separator
+    normalized =
+      lastComma > lastDot
+        ? text.replace(/\./g, "").replace(",", ".")
+        : text.replace(/,/g, "");
+  } else if (/^\d{1,3}([.,]\d{3})+$/.test(text)) {
+    // Groups of three digits are thousands
+    normalized = text.replace(/[.,]/g, "");
+  } else {
+    normalized = text.replace(",", ".");
+  }
+  const value = parseFloat(normalized);
+  return isNaN(value) ? text : String(value);
+}
+
+function readBound(bound: string | undefined): "upper" | "lower" | undefined {
+  const word = bound?.toLowerCase();
+  if (word && UPPER_BOUNDS.includes(word)) return "upper";
+  if (word && LOWER_BOUNDS.includes(word)) return "lower";
+  return undefined;
+}
+
+function toRange(
+  bound: "upper" | "lower" | undefined,
+  from: string,
+  to: string | undefined,
+  factor: number
+): [number, number] {
+  const min = parseFloat(normalizeNumber(from)) * factor;
+  const max = to ? parseFloat(normalizeNumber(to)) * factor : min;
+  if (bound === "upper") return [0, max];
+  if (bound === "lower") return [min, Infinity];
+  return [Math.min(min, max), Math.max(min, max)];
+}
+
+function readUnit(unit: string): [string, string, number] {
+  const word = unit.toLowerCase();
+  if (UNITS[word]) return UNITS[word];
+  return [`count:${COUNT_NOUNS[word]}`, COUNT_NOUNS[word], 1];
+}
+
+// Find every quantity with a recognized unit or currency, in text order
+export function extractQuantities(text: string): QuantityMention[] {
+  const mentions: QuantityMention[] = [];
+  const add = (
+    match: RegExpMatchArray,
+    [dimension, unit, factor]: [string, string, number],
+    bound: string | undefined,
+    from: string,
+    to: string | undefined
+  ) => {
+    const start = match.index!;
+    const end = start + match[0].length;
+    if (
+      mentions.some((mention) => start < mention.end && end > mention.start)
+    ) {
+      return;
+    }
+    const kind = readBound(bound);
+    const [min, max] = toRange(kind, from, to, factor);
+    if (isNaN(min) || isNaN(max)) return;
+    mentions.push({
+      start,
+      end,
+      text: match[0],
+      dimension,
+      unit,
+      min,
+      max,
+      ...(kind ? { bound: kind } : {}),
+    });
+  };
+
+  for (const match of text.matchAll(PREFIX_PRICE_PATTERN)) {
+    const [, bound, symbol, from, to] = match;
+    const currency = CURRENCY_SYMBOLS[symbol.toLowerCase()];
+    add(match, [`currency:${currency}`, currency, 1], bound, from, to);
+  }
+  for (const match of text.matchAll(SUFFIX_PRICE_PATTERN)) {
+    const [, bound, from, to, symbol] = match;
+    const currency = CURRENCY_SYMBOLS[symbol.toLowerCase()];
+    add(match, [`currency:${currency}`, currency, 1], bound, from, to);
+  }
+  for (const match of text.matchAll(BETWEEN_PATTERN)) {
+    const [, from, to, unit] = match;
+    add(match, readUnit(unit), undefined, from, to);
+  }
+  for (const match of text.matchAll(UNIT_PATTERN)) {
+    const [, bound, from, to, unit] = match;
+    add(match, readUnit(unit), bound, from, to);
+  }
+
+  return mentions.sort((a, b) => a.start - b.start);
+}
+
+// Two quantities of the same dimension conflict when their ranges do not
+// overlap, allowing a relative tolerance for rounding ("1 month" vs "30 days").
+// Two limits of the same kind ("within 30 days" vs "within 14 days") always
+// overlap, so their limit values are compared instead.
+export function doQuantitiesConflict(
+  quantity1: QuantityMention,
+  quantity2: QuantityMention,
+  tolerance = 0
+): boolean {
+  if (quantity1.dimension !== quantity2.dimension) return false;
+  if (quantity1.bound && quantity1.bound === quantity2.bound) {
+    const [value1, value2] =
+      quantity1.bound === "upper"
+        ? [quantity1.max, quantity2.max]
+        : [quantity1.min, quantity2.min];
+    return Math.abs(value1 - value2) > tolerance * Math.max(value1, value2);
+  }
+  return (
+    quantity1.max * (1 + tolerance) < quantity2.min ||
+    quantity2.max * (1 + tolerance) < quantity1.min
+  );
+}
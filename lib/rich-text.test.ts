@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import {
+  extractRichText,
+  splitSentences,
+  decodeEntities,
+  splitParagraphs,
+} from "@/lib/rich-text";
+
+describe("extractRichText", () => {
+  it("strips Markdown, keeping blocks as paragraphs", () => {
+    expect(
+      extractRichText(
+        "# Returns\n\nWe accept returns **within 30 days**.\n\n1. Pack it\n2. Ship it"
+      )
+    ).toBe(
+      "Returns\n\nWe accept returns within 30 days.\n\n1. Pack it\n\n2. Ship it"
+    );
+  });
+
+  it("strips HTML and decodes entities", () => {
+    const html = "<p>Hi &amp; bye</p><ul><li>a</li></ul>";
+    expect(extractRichText(html)).toBe("Hi & bye\n\na");
+    expect(extractRichText({ html })).toBe("Hi & bye\n\na");
+  });
+
+  it("reads the blocks of rich text v2 JSON", () => {
+    expect(
+      extractRichText({
+        json: {
+          root: {
+            children: [
+              {
+                type: "paragraph",
+                children: [
+                  { type: "text", text: "Hello" },
+                  { type: "text", text: " world" },
+                ],
+              },
+              { type: "paragraph", children: [{ type: "text", text: "Bye" }] },
+            ],
+          },
+        },
+      })
+    ).toBe("Hello world\n\nBye");
+  });
+
+  it("returns nothing for empty content", () => {
+    expect(extractRichText(null)).toBe("");
+    expect(extractRichText(undefined)).toBe("");
+  });
+});
+
+describe("splitSentences", () => {
+  it("does not split on abbreviations", () => {
+    expect(
+      splitSentences("Open at 9 a.m. on weekdays. Closed Sunday! Call us?")
+    ).toEqual([
+      { start: 0, end: 27, text: "Open at 9 a.m. on weekdays." },
+      { start: 28, end: 42, text: "Closed Sunday!" },
+      { start: 43, end: 51, text: "Call us?" },
+    ]);
+  });
+});
+
+describe("decodeEntities", () => {
+  it("decodes named and numeric entities", () => {
+    expect(decodeEntities("&lt;b&gt; &#39;x&#39;")).toBe("<b> 'x'");
+  });
+});
+
+describe("splitParagraphs", () => {
+  it("keeps offsets into the source text", () => {
+    const text = "One.\n\nTwo.";
+    for (const paragraph of splitParagraphs(text)) {
+      expect(text.substring(paragraph.start, paragraph.end)).toBe(
+        paragraph.text
+      );
+    }
+    expect(splitParagraphs(text).map((paragraph) => paragraph.text)).toEqual([
+      "One.",
+      "Two.",
+    ]);
+  });
+});
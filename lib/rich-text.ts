@@ -0,0 +1,435 @@
+// Plain text of rich-text fields (Yext rich text v2 JSON, Markdown, HTML),
+// with one paragraph per block, and its segmentation into paragraphs and
+// sentences so text checks compare clean sentences instead of markup
+
+export interface TextSegment {
+  // Character range in the extracted plain text
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Yext rich text v2 (Lexical) node
+interface RichTextNode {
+  type?: string;
+  text?: string;
+  // "number" for ordered lists; list items carry their number as value
+  listType?: string;
+  value?: number;
+  children?: RichTextNode[];
+}
+
+const PARAGRAPH_SEPARATOR = "\n\n";
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  bull: "•",
+  middot: "·",
+  deg: "°",
+  times: "×",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  cent: "¢",
+  pound: "£",
+  euro: "€",
+  yen: "¥",
+};
+
+// Abbreviations whose period does not end a sentence even before a capital
+// ("Dr. Smith", "St. Louis", "No. 5")
+const ABBREVIATIONS = new Set([
+  "mr",
+  "mrs",
+  "ms",
+  "dr",
+  "prof",
+  "st",
+  "jr",
+  "sr",
+  "mt",
+  "ave",
+  "blvd",
+  "no",
+  "vs",
+]);
+
+// Terminal punctuation with any closing quotes/brackets, or a line break
+const SENTENCE_BOUNDARY = /[.!?…]+["'”’)\]]*(?=\s|$)|\n+/g;
+
+// Lexical node types that hold one paragraph of inline content
+const LEXICAL_BLOCKS = new Set(["paragraph", "heading", "quote", "listitem"]);
+
+// HTML elements that start and end a paragraph
+const HTML_BLOCKS = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "caption",
+  "dd",
+  "details",
+  "div",
+  "dl",
+  "dt",
+  "figcaption",
+  "figure",
+  "footer",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "li",
+  "main",
+  "nav",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "summary",
+  "table",
+  "tbody",
+  "tfoot",
+  "thead",
+  "tr",
+  "ul",
+]);
+
+const HTML_TOKEN =
+  /<!--[\s\S]*?-->|<(script|style|template)\b[\s\S]*?<\/\1\s*>|<(\/?)([a-z][a-z0-9]*)\b([^>]*)>|[^<]+|</gi;
+const HTML_BLOCK_TAG =
+  /<(p|div|br|li|ul|ol|h[1-6]|table|tr|td|blockquote|section|article)\b[^>]*>/i;
+
+const MARKDOWN_FENCE = /^\s{0,3}(```|~~~)/;
+const MARKDOWN_HEADING = /^\s{0,3}#{1,6}\s+(.*?)(?:\s+#+)?\s*$/;
+const MARKDOWN_QUOTE = /^(\s{0,3}>\s?)+/;
+// Setext heading underlines and horizontal rules both end a paragraph
+const MARKDOWN_RULE = /^\s{0,3}(?:=+|-+|(?:[-*_]\s*){3,})\s*$/;
+const MARKDOWN_LIST_ITEM = /^\s*(?:[-*+]|(\d{1,9})[.)])\s+(.*)$/;
+const MARKDOWN_TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const MARKDOWN_ESCAPE = /\\([\\`*_{}[\]()#+\-.!|>~])/g;
+// Escaped characters are parked in the private use area while emphasis is
+// stripped, so "\*" survives as a literal "*"
+const ESCAPE_OFFSET = 0xe000;
+
+export function decodeEntities(text: string): string {
+  return text.replace(
+    /&(#\d+|#x[0-9a-f]+|[a-z]+\d*);/gi,
+    (entity, name: string) => {
+      if (name[0] === "#") {
+        const code =
+          name[1] === "x" || name[1] === "X"
+            ? parseInt(name.slice(2), 16)
+            : parseInt(name.slice(1), 10);
+        return code > 0 && code <= 0x10ffff
+          ? String.fromCodePoint(code)
+          : entity;
+      }
+      return NAMED_ENTITIES[name] || entity;
+    }
+  );
+}
+
+// Collapse runs of spaces, keeping line breaks
+function cleanBlock(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+// Split plain text into the paragraphs extractRichText separated it into
+export function splitParagraphs(text: string): TextSegment[] {
+  const paragraphs: TextSegment[] = [];
+  let start = 0;
+  for (const block of text.split(PARAGRAPH_SEPARATOR)) {
+    if (block.trim()) {
+      paragraphs.push({ start, end: start + block.length, text: block });
+    }
+    start += block.length + PARAGRAPH_SEPARATOR.length;
+  }
+  return paragraphs;
+}
+
+// Split plain text into trimmed sentences; line breaks always end one
+export function splitSentences(text: string): TextSegment[] {
+  const sentences: TextSegment[] = [];
+  const push = (start: number, end: number) => {
+    while (start < end && /\s/.test(text[start])) start++;
+    while (end > start && /\s/.test(text[end - 1])) end--;
+    if (end > start) {
+      sentences.push({ start, end, text: text.substring(start, end) });
+    }
+  };
+
+  let start = 0;
+  for (const match of text.matchAll(SENTENCE_BOUNDARY)) {
+    const end = match.index! + match[0].length;
+    if (match[0][0] !== "\n") {
+      // A lowercase next word or a title abbreviation continues the sentence
+      const next = text.substring(end).trimStart()[0];
+      if (next && next !== next.toUpperCase()) continue;
+      const word = text
+        .substring(start, match.index!)
+        .match(/([A-Za-z]+)$/)?.[1]
+        .toLowerCase();
+      if (match[0] === "." && word && ABBREVIATIONS.has(word)) continue;
+      // The number of an ordered list item ("1. Open the app")
+      if (/^\s*\d{1,3}$/.test(text.substring(start, match.index!))) continue;
+    }
+    push(start, end);
+    start = end;
+  }
+  push(start, text.length);
+
+  return sentences;
+}
+
+function lexicalInline(node: RichTextNode): string {
+  if (node.type === "linebreak") return "\n";
+  if (node.type === "tab") return " ";
+  if (typeof node.text === "string") return node.text;
+  return (node.children || []).map(lexicalInline).join("");
+}
+
+function lexicalToBlocks(
+  node: RichTextNode,
+  blocks: string[] = [],
+  marker = ""
+): string[] {
+  if (node.type === "code" || node.type === "horizontalrule") return blocks;
+
+  if (node.type === "tablerow") {
+    blocks.push(
+      (node.children || [])
+        .map((cell) => cleanBlock(lexicalInline(cell)))
+        .filter(Boolean)
+        .join(" | ")
+    );
+  } else if (node.type && LEXICAL_BLOCKS.has(node.type)) {
+    // Nested lists inside a list item become list items of their own
+    const nested = (node.children || []).filter(
+      (child) => child.type === "list"
+    );
+    const text = cleanBlock(
+      (node.children || [])
+        .filter((child) => child.type !== "list")
+        .map(lexicalInline)
+        .join("")
+    );
+    blocks.push(text && marker + text);
+    nested.forEach((list) => lexicalToBlocks(list, blocks));
+  } else if (node.type === "list" && node.listType === "number") {
+    (node.children || []).forEach((item, index) =>
+      lexicalToBlocks(item, blocks, `${item.value || index + 1}. `)
+    );
+  } else if (node.children) {
+    node.children.forEach((child) => lexicalToBlocks(child, blocks));
+  } else if (typeof node.text === "string") {
+    blocks.push(cleanBlock(node.text));
+  }
+  return blocks;
+}
+
+function htmlToBlocks(html: string): string[] {
+  const blocks: string[] = [];
+  let current = "";
+  let preDepth = 0;
+  // Item counter of each open list; null for unordered lists
+  const lists: Array<number | null> = [];
+  const flush = () => {
+    // A list item's number stays for the paragraph inside the item
+    if (/^\d+\. $/.test(current)) return;
+    blocks.push(cleanBlock(current));
+    current = "";
+  };
+
+  for (const match of html.matchAll(HTML_TOKEN)) {
+    const [token, , closing, tagName, attributes] = match;
+    if (token.startsWith("<!--") || match[1]) continue;
+
+    if (!tagName) {
+      // Text, or a "<" that does not open a tag
+      current += decodeEntities(
+        preDepth > 0 ? token : token.replace(/\s+/g, " ")
+      );
+      continue;
+    }
+
+    const tag = tagName.toLowerCase();
+    if (tag === "br") {
+      current += "\n";
+    } else if (tag === "td" || tag === "th") {
+      if (!closing && current.trim()) current += " | ";
+    } else if (tag === "img" && !closing) {
+      const alt = attributes.match(
+        /\balt\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i
+      );
+      if (alt) current += ` ${decodeEntities(alt[1] || alt[2] || alt[3])} `;
+    } else if (HTML_BLOCKS.has(tag)) {
+      flush();
+      if (tag === "pre") preDepth += closing ? -1 : 1;
+      if ((tag === "ol" || tag === "ul") && closing) lists.pop();
+      if (tag === "ul" && !closing) lists.push(null);
+      if (tag === "ol" && !closing) {
+        const start = attributes.match(/\bstart\s*=\s*["']?(\d+)/i);
+        lists.push(start ? parseInt(start[1], 10) - 1 : 0);
+      }
+      // Ordered list items keep their number, like the rendered list
+      const counter = lists[lists.length - 1];
+      if (tag === "li" && !closing && typeof counter === "number") {
+        lists[lists.length - 1] = counter + 1;
+        current = `${counter + 1}. `;
+      }
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+function markdownInline(text: string): string {
+  return decodeEntities(
+    text
+      .replace(MARKDOWN_ESCAPE, (_, char: string) =>
+        String.fromCharCode(ESCAPE_OFFSET + char.charCodeAt(0))
+      )
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1") // Images
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1") // Links
+      .replace(/\[([^\]]*)\]\[[^\]]*\]/g, "$1") // Reference links
+      .replace(/<((?:https?:|mailto:)[^>\s]+)>/g, "$1") // Autolinks
+      .replace(/<\/?[a-z][^>]*>/gi, "") // Inline HTML
+      .replace(/`([^`]*)`/g, "$1") // Inline code
+      .replace(/\*\*(.+?)\*\*/g, "$1") // Bold
+      .replace(/\b__(.+?)__\b/g, "$1") // Bold
+      .replace(/~~(.+?)~~/g, "$1") // Strikethrough
+      .replace(/\*(\S(?:[^*]*\S)?)\*/g, "$1") // Italic
+      .replace(/\b_(\S(?:[^_]*\S)?)_\b/g, "$1") // Italic
+      .replace(/[\ue000-\ue0ff]/g, (char) =>
+        String.fromCharCode(char.charCodeAt(0) - ESCAPE_OFFSET)
+      )
+  );
+}
+
+function markdownTableRow(line: string): string {
+  return line
+    .trim()
+    .replace(/^\||\|$/g, "")
+    .split("|")
+    .map((cell) => cleanBlock(markdownInline(cell)))
+    .filter(Boolean)
+    .join(" | ");
+}
+
+function markdownToBlocks(markdown: string): string[] {
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+  let fence: string | null = null;
+  let inTable = false;
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push(cleanBlock(paragraph.map(markdownInline).join(" ")));
+    }
+    paragraph = [];
+  };
+
+  for (const rawLine of markdown.split(/\r?\n/)) {
+    // Code blocks are not prose, so they are left out
+    if (fence) {
+      if (rawLine.trim().startsWith(fence)) fence = null;
+      continue;
+    }
+    const fenceMatch = rawLine.match(MARKDOWN_FENCE);
+    if (fenceMatch) {
+      flush();
+      fence = fenceMatch[1];
+      continue;
+    }
+
+    const line = rawLine.replace(MARKDOWN_QUOTE, "");
+    if (inTable && line.includes("|")) {
+      blocks.push(markdownTableRow(line));
+      continue;
+    }
+    inTable = false;
+
+    if (!line.trim()) {
+      flush();
+    } else if (line.includes("|") && MARKDOWN_TABLE_DIVIDER.test(line)) {
+      // The line before the divider is the header row
+      const header = paragraph.pop();
+      flush();
+      if (header) blocks.push(markdownTableRow(header));
+      inTable = true;
+    } else if (MARKDOWN_RULE.test(line)) {
+      flush();
+    } else if (MARKDOWN_HEADING.test(line)) {
+      flush();
+      paragraph = [line.match(MARKDOWN_HEADING)![1]];
+      flush();
+    } else if (MARKDOWN_LIST_ITEM.test(line)) {
+      flush();
+      const [, number, item] = line.match(MARKDOWN_LIST_ITEM)!;
+      paragraph = [number ? `${number}. ${item}` : item];
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+function getBlocks(content: unknown): string[] {
+  if (!content) return [];
+
+  if (typeof content === "string") {
+    const trimmed = content.trim();
+    if (trimmed.startsWith("{") && trimmed.includes('"root"')) {
+      try {
+        return getBlocks(JSON.parse(trimmed));
+      } catch {
+        // Not JSON after all; read it as Markdown
+      }
+    }
+    return HTML_BLOCK_TAG.test(content)
+      ? htmlToBlocks(content)
+      : markdownToBlocks(content);
+  }
+
+  if (typeof content === "object") {
+    // Rich text v2 fields: { json: { root }, markdown?, html? }
+    const field = content as Record<string, unknown>;
+    if (field.json) return getBlocks(field.json);
+    if (field.root) return lexicalToBlocks(field.root as RichTextNode);
+    if (field.markdown) return markdownToBlocks(String(field.markdown));
+    if (field.html) return htmlToBlocks(String(field.html));
+    if ("markdown" in field || "html" in field) return [];
+  }
+
+  return [String(JSON.stringify(content))];
+}
+
+// Plain text of a rich-text value, its blocks (paragraphs, headings, list
+// items, table rows) separated by blank lines. splitParagraphs and
+// splitSentences segment it; their offsets are what evidence spans refer to.
+export function extractRichText(content: unknown): string {
+  return getBlocks(content).filter(Boolean).join(PARAGRAPH_SEPARATOR);
+}
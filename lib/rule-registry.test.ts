@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { ConflictRule, YextEntity } from "@/lib/types";
+import {
+  builtInRules,
+  registerRule,
+  unregisterRule,
+  getRegisteredRules,
+  ruleAppliesTo,
+  runRule,
+} from "@/lib/rule-registry";
+import { detectConflicts } from "@/lib/conflict-detector";
+import { DEFAULT_DETECTION_PROFILE } from "@/lib/detection-profile";
+
+vi.spyOn(console, "log").mockImplementation(() => {});
+
+const customRule: ConflictRule = {
+  id: "custom_rule",
+  name: "Custom rule",
+  description: "Flags every group of FAQs",
+  entityTypes: ["faq"],
+  scope: "group",
+  evaluate: (entities) => [
+    {
+      field: "answer",
+      values: entities.map((entity) => ({
+        entityId: entity.id,
+        entityName: entity.name,
+        value: entity.answer || "",
+      })),
+      conflictType: "custom",
+      confidence: 0.3,
+      description: "Custom finding",
+    },
+  ],
+};
+
+const faqs: YextEntity[] = ["1", "2"].map((id) => ({
+  id,
+  name: "Do you ship abroad?",
+  answer: "Yes, we ship worldwide.",
+  meta: { id, entityType: "faq" },
+}));
+
+const getRuleIds = (options = {}) =>
+  detectConflicts(faqs, options).flatMap((conflict) =>
+    conflict.conflictDetails.map((detail) => detail.ruleId)
+  );
+
+describe("rule registry", () => {
+  afterEach(() => unregisterRule(customRule.id));
+
+  it("starts with the built-in rules, each under a unique id", () => {
+    const ids = getRegisteredRules().map((rule) => rule.id);
+    expect(ids).toEqual(builtInRules.map((rule) => rule.id));
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it("registers and unregisters rules", () => {
+    registerRule(customRule);
+    expect(getRegisteredRules()).toContain(customRule);
+    unregisterRule(customRule.id);
+    expect(getRegisteredRules()).not.toContain(customRule);
+  });
+
+  it("applies rules to their entity types only", () => {
+    expect(ruleAppliesTo(customRule, "faq")).toBe(true);
+    expect(ruleAppliesTo(customRule, "location")).toBe(false);
+    expect(
+      ruleAppliesTo({ ...customRule, entityTypes: undefined }, "location")
+    ).toBe(true);
+  });
+
+  it("stamps the rule id on findings", () => {
+    expect(
+      runRule(customRule, faqs, {
+        entityType: "faq",
+        profile: DEFAULT_DETECTION_PROFILE,
+      })
+    ).toMatchObject([{ ruleId: "custom_rule", conflictType: "custom" }]);
+  });
+});
+
+describe("detectConflicts", () => {
+  afterEach(() => unregisterRule(customRule.id));
+
+  it("runs registered rules", () => {
+    expect(getRuleIds()).toEqual([]);
+    registerRule(customRule);
+    expect(getRuleIds()).toEqual(["custom_rule"]);
+  });
+
+  it("runs extra rules for one pass", () => {
+    expect(getRuleIds({ rules: [customRule] })).toEqual(["custom_rule"]);
+    expect(getRuleIds()).toEqual([]);
+  });
+
+  it("skips disabled rules and rules outside the enabled list", () => {
+    registerRule(customRule);
+    expect(getRuleIds({ disabledRules: ["custom_rule"] })).toEqual([]);
+    expect(getRuleIds({ enabledRules: ["faq_answer_conflict"] })).toEqual([]);
+  });
+});
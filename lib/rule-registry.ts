@@ -0,0 +1,77 @@
+import type {
+  YextEntity,
+  ConflictRule,
+  RuleContext,
+  RuleFinding,
+  ConflictDetail,
+} from "@/lib/types";
+import {
+  faqAnswerConflictRule,
+  contentContradictionRule,
+  crossTypeContradictionRule,
+  phoneMismatchRule,
+  invalidPhoneRule,
+  urlMismatchRule,
+  offDomainUrlRule,
+} from "@/lib/conflict-rules";
+import { locationRules } from "@/lib/location-rules";
+import { localeRules } from "@/lib/locale-rules";
+import { fieldRules } from "@/lib/field-rules";
+import { getSeverityForScore } from "@/lib/scoring";
+import { getConflictDetailId } from "@/lib/conflict-ids";
+
+export const builtInRules: ConflictRule[] = [
+  faqAnswerConflictRule,
+  contentContradictionRule,
+  crossTypeContradictionRule,
+  phoneMismatchRule,
+  invalidPhoneRule,
+  urlMismatchRule,
+  offDomainUrlRule,
+  ...locationRules,
+  ...fieldRules,
+  ...localeRules,
+];
+
+// Registry of rules available to detectConflicts, keyed by rule id
+const ruleRegistry = new Map<string, ConflictRule>(
+  builtInRules.map((rule) => [rule.id, rule])
+);
+
+// Register an additional (e.g. account-specific) rule; replaces any rule with the same id
+export function registerRule(rule: ConflictRule) {
+  ruleRegistry.set(rule.id, rule);
+}
+
+export function unregisterRule(ruleId: string) {
+  ruleRegistry.delete(ruleId);
+}
+
+export function getRegisteredRules(): ConflictRule[] {
+  return Array.from(ruleRegistry.values());
+}
+
+// Check whether a rule applies to the given entity type
+export function ruleAppliesTo(rule: ConflictRule, entityType: string): boolean {
+  if (rule.excludedEntityTypes?.includes(entityType)) return false;
+  return !rule.entityTypes || rule.entityTypes.includes(entityType);
+}
+
+// Run a rule (or another of its evaluators, e.g. evaluateBlock) and stamp its
+// id, a stable detail id and severity on every detail it emits
+export function runRule(
+  rule: ConflictRule,
+  entities: YextEntity[],
+  context: RuleContext,
+  evaluate = rule.evaluate
+): ConflictDetail[] {
+  return evaluate(entities, context).map((finding: RuleFinding) => ({
+    ...finding,
+    id: getConflictDetailId(rule.id, finding),
+    severity: getSeverityForScore(
+      finding.confidence,
+      context.profile.severityBands
+    ),
+    ruleId: rule.id,
+  }));
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { combineConfidences, getSeverityForScore } from "@/lib/scoring";
+
+describe("combineConfidences", () => {
+  it("adds independent signals without exceeding the cap", () => {
+    expect(combineConfidences([])).toBe(0);
+    expect(combineConfidences([0.5, 0.5])).toBeCloseTo(0.75);
+    expect(combineConfidences([0.9, 0.9, 0.9])).toBe(0.99);
+  });
+});
+
+describe("getSeverityForScore", () => {
+  const bands = { high: 0.75, medium: 0.45 };
+
+  it("includes each band's lower threshold", () => {
+    expect(getSeverityForScore(0.75, bands)).toBe("high");
+    expect(getSeverityForScore(0.45, bands)).toBe("medium");
+    expect(getSeverityForScore(0.44, bands)).toBe("low");
+  });
+});
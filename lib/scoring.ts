@@ -0,0 +1,24 @@
+import type { ConflictDetail, SeverityBands } from "@/lib/types";
+
+// Highest confidence a combination of signals can reach
+const MAX_CONFIDENCE = 0.99;
+
+// Combine independent signals (noisy-OR): each one adds to the chance that
+// at least one of them points at a real problem
+export function combineConfidences(confidences: number[]): number {
+  const missed = confidences.reduce(
+    (product, confidence) => product * (1 - confidence),
+    1
+  );
+  return Math.min(1 - missed, MAX_CONFIDENCE);
+}
+
+// Map a 0-1 score onto a severity using the profile's band thresholds
+export function getSeverityForScore(
+  score: number,
+  bands: SeverityBands
+): ConflictDetail["severity"] {
+  if (score >= bands.high) return "high";
+  if (score >= bands.medium) return "medium";
+  return "low";
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { alignSentences } from "@/lib/sentence-alignment";
+
+const summarize = (text1: string, text2: string, minSimilarity: number) =>
+  alignSentences(text1, text2, minSimilarity).map(
+    ({ sentences: [sentence1, sentence2] }) => [sentence1.text, sentence2.text]
+  );
+
+describe("alignSentences", () => {
+  it("pairs each sentence with its closest counterpart", () => {
+    expect(
+      summarize(
+        "Returns are accepted within 30 days. Shipping is free over $50.",
+        "Shipping is free over $75. Returns are accepted within 14 days.",
+        0.3
+      )
+    ).toEqual([
+      [
+        "Returns are accepted within 30 days.",
+        "Returns are accepted within 14 days.",
+      ],
+      ["Shipping is free over $50.", "Shipping is free over $75."],
+    ]);
+  });
+
+  it("uses each sentence in at most one pair", () => {
+    expect(
+      summarize(
+        "Returns are accepted within 30 days. Returns are accepted by mail.",
+        "Returns are accepted within 14 days.",
+        0.3
+      )
+    ).toEqual([
+      [
+        "Returns are accepted within 30 days.",
+        "Returns are accepted within 14 days.",
+      ],
+    ]);
+  });
+
+  it("leaves out sentences without a counterpart", () => {
+    expect(
+      summarize(
+        "Returns are accepted within 30 days. Our cafe serves coffee.",
+        "Returns are accepted within 14 days. Gift cards never expire.",
+        0.3
+      )
+    ).toEqual([
+      [
+        "Returns are accepted within 30 days.",
+        "Returns are accepted within 14 days.",
+      ],
+    ]);
+  });
+
+  it("keeps pairs whose overlap reaches the threshold", () => {
+    const text1 = "Returns are accepted within 30 days.";
+    const text2 = "Returns are accepted within 14 days.";
+    const [pair] = alignSentences(text1, text2, 0);
+    expect(summarize(text1, text2, pair.similarity)).toHaveLength(1);
+    expect(summarize(text1, text2, pair.similarity + 0.01)).toEqual([]);
+  });
+});
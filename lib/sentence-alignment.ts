@@ -0,0 +1,56 @@
+import { getWordSet, calculateSetOverlap } from "@/lib/text-utils";
+import { splitSentences, type TextSegment } from "@/lib/rich-text";
+
+export interface SentencePair {
+  // Sentences of the first and second text, with offsets in those texts
+  sentences: [TextSegment, TextSegment];
+  // Word overlap (0-1) of the two sentences
+  similarity: number;
+}
+
+// Pair sentences of the two texts one-to-one, most similar pairs first, so a
+// sentence is only compared with its closest counterpart. Sentences with no
+// counterpart at least minSimilarity alike are left out, since they say
+// nothing the other text could contradict. Pairs are in first-text order.
+export function alignSentences(
+  text1: string,
+  text2: string,
+  minSimilarity: number
+): SentencePair[] {
+  const sentences1 = splitSentences(text1);
+  const sentences2 = splitSentences(text2);
+  const words2 = sentences2.map((sentence) => getWordSet(sentence.text));
+
+  const candidates: Array<{ i: number; j: number; similarity: number }> = [];
+  sentences1.forEach((sentence1, i) => {
+    const words1 = getWordSet(sentence1.text);
+    words2.forEach((words, j) => {
+      const similarity = calculateSetOverlap(words1, words);
+      if (similarity > 0 && similarity >= minSimilarity) {
+        candidates.push({ i, j, similarity });
+      }
+    });
+  });
+  // Ties go to the pair earliest in both texts
+  candidates.sort(
+    (a, b) => b.similarity - a.similarity || a.i - b.i || a.j - b.j
+  );
+
+  const matched1 = new Set<number>();
+  const matched2 = new Set<number>();
+  const pairs: Array<SentencePair & { index: number }> = [];
+  for (const { i, j, similarity } of candidates) {
+    if (matched1.has(i) || matched2.has(j)) continue;
+    matched1.add(i);
+    matched2.add(j);
+    pairs.push({
+      sentences: [sentences1[i], sentences2[j]],
+      similarity,
+      index: i,
+    });
+  }
+
+  return pairs
+    .sort((a, b) => a.index - b.index)
+    .map(({ sentences, similarity }) => ({ sentences, similarity }));
+}
@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createEmbeddingSimilarityProvider,
+  lexicalSimilarityProvider,
+  cosineSimilarity,
+} from "@/lib/similarity";
+import { detectConflictsAsync } from "@/lib/conflict-detector";
+
+vi.spyOn(console, "log").mockImplementation(() => {});
+
+// Fixed embeddings in place of the model
+const VECTORS: Record<string, number[]> = {
+  sofa: [1, 0],
+  couch: [0.9, Math.sqrt(1 - 0.81)],
+  lamp: [0.6, 0.8],
+};
+
+const model = vi.hoisted(() => ({ unavailable: false }));
+
+vi.mock("@huggingface/transformers", () => ({
+  env: {},
+  pipeline: async () => {
+    if (model.unavailable) throw new Error("model not in cache");
+    return async (texts: string[]) => ({
+      tolist: () => texts.map((text) => VECTORS[text]),
+    });
+  },
+}));
+
+afterEach(() => {
+  model.unavailable = false;
+});
+
+describe("cosineSimilarity", () => {
+  it("is 1 for parallel vectors and 0 for zero vectors", () => {
+    expect(cosineSimilarity([1, 0], [1, 0])).toBe(1);
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+  });
+});
+
+describe("createEmbeddingSimilarityProvider", () => {
+  it("uses cosine scores reaching the semantic threshold", async () => {
+    const provider = createEmbeddingSimilarityProvider();
+    await provider.prepare!(["Sofa", "Couch", "Lamp"]);
+    expect(provider.similarity("Sofa", "Couch", 0.8)).toBeCloseTo(0.9);
+    expect(provider.embedding!("sofa")).toEqual([1, 0]);
+  });
+
+  it("falls back to lexical scores below the semantic threshold", async () => {
+    const provider = createEmbeddingSimilarityProvider();
+    await provider.prepare!(["Sofa", "Lamp"]);
+    expect(provider.similarity("Sofa", "Lamp", 0.8)).toBe(
+      lexicalSimilarityProvider.similarity("Sofa", "Lamp")
+    );
+  });
+
+  it("falls back to lexical scores for unprepared texts", () => {
+    const provider = createEmbeddingSimilarityProvider();
+    expect(provider.similarity("Sofa", "Sofas")).toBe(
+      lexicalSimilarityProvider.similarity("Sofa", "Sofas")
+    );
+  });
+
+  it("reports why it fell back when the model cannot load", async () => {
+    model.unavailable = true;
+    const provider = createEmbeddingSimilarityProvider();
+    await provider.prepare!(["Sofa", "Couch"]);
+    expect(provider.fallbackReason!()).toContain("model not in cache");
+    expect(provider.similarity("Sofa", "Couch", 0.8)).toBe(
+      lexicalSimilarityProvider.similarity("Sofa", "Couch")
+    );
+
+    const onWarning = vi.fn();
+    await detectConflictsAsync([], {
+      similarityProvider: provider,
+      onWarning,
+    });
+    expect(onWarning).toHaveBeenCalledWith(provider.fallbackReason!());
+  });
+});
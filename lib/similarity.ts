@@ -0,0 +1,143 @@
+import type { SimilarityProvider } from "@/lib/types";
+import { normalizeString, calculateSimilarity } from "@/lib/text-utils";
+
+// The model is downloaded from the Hugging Face Hub on first use and cached
+// (by default under node_modules/@huggingface/transformers/.cache). Offline
+// deployments can download it ahead of time into cacheDir and set localOnly.
+export interface EmbeddingProviderOptions {
+  // Hugging Face id of a sentence-embedding model with ONNX weights
+  model?: string;
+  // Directory downloaded models are cached in
+  cacheDir?: string;
+  // Only use models already in the cache, never download
+  localOnly?: boolean;
+}
+
+const DEFAULT_EMBEDDING_MODEL = "Xenova/all-MiniLM-L6-v2";
+// transformers.js is loaded at runtime so it stays an optional dependency;
+// without it the embedding provider behaves like the lexical one
+const TRANSFORMERS_MODULE = "@huggingface/transformers";
+const EMBEDDING_BATCH_SIZE = 32;
+// Embeddings kept between runs before the cache is cleared
+const MAX_CACHED_EMBEDDINGS = 50000;
+
+type FeatureExtractor = (
+  texts: string[],
+  options: { pooling: "mean"; normalize: boolean }
+) => Promise<{ tolist(): number[][] }>;
+
+// Character-level similarity of the normalized texts (Levenshtein)
+export const lexicalSimilarityProvider: SimilarityProvider = {
+  id: "lexical",
+  similarity: (text1, text2) =>
+    calculateSimilarity(normalizeString(text1), normalizeString(text2)),
+};
+
+export function cosineSimilarity(vector1: number[], vector2: number[]): number {
+  let dot = 0;
+  let norm1 = 0;
+  let norm2 = 0;
+  for (let i = 0; i < vector1.length; i++) {
+    dot += vector1[i] * vector2[i];
+    norm1 += vector1[i] * vector1[i];
+    norm2 += vector2[i] * vector2[i];
+  }
+  return norm1 && norm2 ? dot / Math.sqrt(norm1 * norm2) : 0;
+}
+
+// Sentence-embedding similarity from a local, CPU-only model. Texts must be
+// prepared first; unprepared texts, or a model that fails to load, fall back
+// to lexical similarity. Cosine scores of unrelated names are often well
+// above the name threshold, so they are only used when they reach
+// minSemanticSimilarity; scores are never below the lexical score, so
+// near-identical spellings still match.
+export function createEmbeddingSimilarityProvider(
+  options: EmbeddingProviderOptions = {}
+): SimilarityProvider {
+  const model = options.model || DEFAULT_EMBEDDING_MODEL;
+  const embeddings = new Map<string, number[]>();
+  let extractor: Promise<FeatureExtractor | null> | null = null;
+  let fallbackReason: string | undefined;
+
+  const loadExtractor = () => {
+    if (extractor) return extractor;
+    extractor = (async () => {
+      try {
+        const transformers = await import(
+          /* webpackIgnore: true */ TRANSFORMERS_MODULE
+        );
+        if (options.cacheDir) transformers.env.cacheDir = options.cacheDir;
+        if (options.localOnly) transformers.env.allowRemoteModels = false;
+        return (await transformers.pipeline("feature-extraction", model, {
+          device: "cpu",
+        })) as FeatureExtractor;
+      } catch (error) {
+        fallbackReason = `Embedding model ${model} unavailable, using lexical similarity: ${
+          error instanceof Error ? error.message : String(error)
+        }`;
+        console.log(`[v0] ${fallbackReason}`);
+        return null;
+      }
+    })();
+    return extractor;
+  };
+
+  return {
+    id: `embedding:${model}`,
+
+    async prepare(texts) {
+      const unique = Array.from(new Set(texts.map(normalizeString)));
+      if (embeddings.size + unique.length > MAX_CACHED_EMBEDDINGS) {
+        embeddings.clear();
+      }
+      const pending = unique.filter((text) => text && !embeddings.has(text));
+      if (pending.length === 0) return;
+
+      const extract = await loadExtractor();
+      if (!extract) return;
+
+      console.log(`[v0] Embedding ${pending.length} texts with ${model}`);
+      for (let i = 0; i < pending.length; i += EMBEDDING_BATCH_SIZE) {
+        const batch = pending.slice(i, i + EMBEDDING_BATCH_SIZE);
+        const output = await extract(batch, {
+          pooling: "mean",
+          normalize: true,
+        });
+        output.tolist().forEach((vector, j) => {
+          embeddings.set(batch[j], vector);
+        });
+      }
+    },
+
+    similarity(text1, text2, minSemanticSimilarity = 0) {
+      const lexical = lexicalSimilarityProvider.similarity(text1, text2);
+      const vector1 = embeddings.get(normalizeString(text1));
+      const vector2 = embeddings.get(normalizeString(text2));
+      if (!vector1 || !vector2) return lexical;
+      const semantic = cosineSimilarity(vector1, vector2);
+      return semantic >= minSemanticSimilarity
+        ? Math.max(lexical, semantic)
+        : lexical;
+    },
+
+    embedding: (text) => embeddings.get(normalizeString(text)),
+
+    fallbackReason: () => fallbackReason,
+  };
+}
+
+let sharedEmbeddingProvider: SimilarityProvider | null = null;
+
+// Embedding provider shared across runs, so the model loads once per process
+// and repeated names are only embedded once. Configured through the
+// environment: EMBEDDING_MODEL, EMBEDDING_CACHE_DIR, EMBEDDING_LOCAL_ONLY=true
+export function getEmbeddingSimilarityProvider(): SimilarityProvider {
+  if (!sharedEmbeddingProvider) {
+    sharedEmbeddingProvider = createEmbeddingSimilarityProvider({
+      model: process.env.EMBEDDING_MODEL,
+      cacheDir: process.env.EMBEDDING_CACHE_DIR,
+      localOnly: process.env.EMBEDDING_LOCAL_ONLY === "true",
+    });
+  }
+  return sharedEmbeddingProvider;
+}
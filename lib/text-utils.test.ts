@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import {
+  normalizeString,
+  getWordSet,
+  calculateSetOverlap,
+  calculateWordOverlap,
+} from "@/lib/text-utils";
+
+describe("word overlap", () => {
+  it("compares normalized words", () => {
+    expect(normalizeString("  Hello,   World! ")).toBe("hello world");
+    expect(getWordSet("The the THE")).toEqual(new Set(["the"]));
+  });
+
+  it("is the Jaccard index of the word sets", () => {
+    expect(calculateWordOverlap("red blue", "blue green")).toBeCloseTo(1 / 3);
+    expect(calculateWordOverlap("Red, blue", "blue red")).toBe(1);
+    expect(calculateWordOverlap("red", "green")).toBe(0);
+  });
+
+  it("treats two empty texts as identical", () => {
+    expect(calculateSetOverlap(new Set(), new Set())).toBe(1);
+    expect(calculateWordOverlap("", "red")).toBe(0);
+  });
+});
@@ -0,0 +1,70 @@
+import { extractRichText } from "@/lib/rich-text";
+
+// Plain text of a Markdown/HTML string or a rich text (bodyV2) object
+export function extractTextContent(content: unknown): string {
+  return extractRichText(content);
+}
+
+// Normalize strings for comparison
+export function normalizeString(str: string): string {
+  return str
+    .toLowerCase()
+    .trim()
+    .replace(/[^\w\s]/g, "")
+    .replace(/\s+/g, " ");
+}
+
+// Distinct words of a string, normalized
+export function getWordSet(str: string): Set<string> {
+  return new Set(normalizeString(str).split(" ").filter(Boolean));
+}
+
+// Share of words two word sets have in common (Jaccard, 0-1)
+export function calculateSetOverlap(
+  words1: Set<string>,
+  words2: Set<string>
+): number {
+  if (words1.size === 0 && words2.size === 0) return 1;
+
+  let shared = 0;
+  for (const word of words1) {
+    if (words2.has(word)) shared++;
+  }
+  return shared / (words1.size + words2.size - shared);
+}
+
+// Share of distinct words two strings have in common (Jaccard, 0-1)
+export function calculateWordOverlap(str1: string, str2: string): number {
+  return calculateSetOverlap(getWordSet(str1), getWordSet(str2));
+}
+
+// Calculate similarity between two strings using Levenshtein distance
+export function calculateSimilarity(str1: string, str2: string): number {
+  const len1 = str1.length;
+  const len2 = str2.length;
+
+  if (len1 === 0) return len2 === 0 ? 1 : 0;
+  if (len2 === 0) return 0;
+
+  const matrix = Array(len2 + 1)
+    .fill(null)
+    .map(() => Array(len1 + 1).fill(null));
+
+  for (let i = 0; i <= len1; i++) matrix[0][i] = i;
+  for (let j = 0; j <= len2; j++) matrix[j][0] = j;
+
+  for (let j = 1; j <= len2; j++) {
+    for (let i = 1; i <= len1; i++) {
+      const cost = str1[i - 1] === str2[j - 1] ? 0 : 1;
+      matrix[j][i] = Math.min(
+        matrix[j][i - 1] + 1,
+        matrix[j - 1][i] + 1,
+        matrix[j - 1][i - 1] + cost
+      );
+    }
+  }
+
+  const distance = matrix[len2][len1];
+  const maxLen = Math.max(len1, len2);
+  return maxLen === 0 ? 1 : (maxLen - distance) / maxLen;
+}
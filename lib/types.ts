@@ -4,18 +4,27 @@ export interface YextEntity {
   description?: string;
   content?: string;
   body?: string;
-  bodyV2?: string;
-  richTextDescription?: string;
-  richText?: string;
+  // Rich text fields arrive as Markdown/HTML strings or rich text v2 objects;
+  // read them with extractTextContent
+  bodyV2?: unknown;
+  richTextDescription?: unknown;
+  richText?: unknown;
   answer?: string;
   mainPhone?: string;
   websiteUrl?: string;
   address?: {
     line1?: string;
+    line2?: string;
     city?: string;
     state?: string;
+    region?: string;
+    postalCode?: string;
     country?: string;
+    countryCode?: string;
   };
+  hours?: Hours;
+  geocodedCoordinate?: Coordinate;
+  yextDisplayCoordinate?: Coordinate;
   meta?: {
     id?: string;
     entityType?: string;
@@ -27,28 +36,324 @@ export interface YextEntity {
     language?: string;
     countryCode?: string;
   };
+  // Custom ("c_*") and other fields not modelled above; see field-discovery.ts
+  [field: string]: unknown;
+}
+
+export interface Coordinate {
+  latitude?: number;
+  longitude?: number;
+}
+
+export interface DayHours {
+  isClosed?: boolean;
+  openIntervals?: Array<{ start?: string; end?: string }>;
+}
+
+export type Weekday =
+  | "monday"
+  | "tuesday"
+  | "wednesday"
+  | "thursday"
+  | "friday"
+  | "saturday"
+  | "sunday";
+
+export type Hours = Partial<Record<Weekday, DayHours>>;
+
+// How a discovered field's values are read and compared
+export type FieldKind =
+  | "text"
+  | "richText"
+  | "phone"
+  | "url"
+  | "number"
+  | "date"
+  | "enum"
+  | "list"
+  | "entityReference";
+
+// A field found on the fetched entities of one type
+export interface DiscoveredField {
+  entityType: string;
+  field: string;
+  kind: FieldKind;
+  // Share (0-1) of the type's entities with a value in the field
+  coverage: number;
+  // A few of the field's values, as text
+  examples: string[];
+}
+
+// A field opted into comparison and the kind its values are compared as
+export interface ComparedField {
+  field: string;
+  kind: FieldKind;
 }
 
 export interface ConflictDetail {
+  // Stable across runs: derived from the rule, conflict type, field and the
+  // compared entities' ids
+  id: string;
   field: string;
   values: Array<{
     entityId: string | undefined;
     entityName: string | undefined;
     value: string;
+    // Full compared text that evidence offsets refer to
+    text?: string;
   }>;
   conflictType: string;
+  // Derived from confidence using the profile's severity bands
   severity: "high" | "medium" | "low";
+  // Likelihood (0-1) that the finding is a real problem
+  confidence: number;
   description: string;
+  ruleId: string;
+  // Why the texts were judged contradictory, when a text detector fired
+  evidence?: ContradictionEvidence[];
+  // Second-stage verdict on the flagged texts, when an adjudicator ran
+  adjudication?: Adjudication;
+}
+
+export type AdjudicationLabel = "entailment" | "contradiction" | "neutral";
+
+export interface AdjudicationVerdict {
+  label: AdjudicationLabel;
+  // Adjudicator's confidence (0-1) in the label
+  confidence: number;
+  rationale: string;
+}
+
+export interface Adjudication extends AdjudicationVerdict {
+  // Id of the adjudicator that produced the verdict
+  adjudicator: string;
+}
+
+// Judges whether two texts already flagged as contradictory really are,
+// e.g. a local NLI model or an LLM behind an OpenAI-compatible endpoint
+export interface Adjudicator {
+  id: string;
+  adjudicate: (
+    premise: string,
+    hypothesis: string
+  ) => Promise<AdjudicationVerdict>;
+}
+
+export type ContradictionDetector =
+  | "factual"
+  | "procedural"
+  | "temporal"
+  | "quantitative";
+
+// Character range [start, end) in a compared text
+export interface TextSpan {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface ContradictionEvidence {
+  detector: ContradictionDetector;
+  // What clashed, e.g. "date", "quantity" or "claim"; procedural clashes are
+  // "step_action", "step_missing" or "step_order"
+  factType: string;
+  // e.g. 'date: "2019" vs "2021"'
+  description: string;
+  // Clashing spans in the first and second text
+  spans: [TextSpan, TextSpan];
+  // Likelihood (0-1) that this clash is a real contradiction
+  confidence: number;
+  // The aligned sentences of each text the clash was found in
+  alignment?: {
+    sentences: [TextSpan, TextSpan];
+    // Word overlap (0-1) of the two sentences
+    similarity: number;
+  };
 }
 
 export interface ConflictGroup {
+  // Stable across runs: derived from the detection pass and the sorted ids of
+  // the group's entities
   id: string;
   title: string;
   entities: Array<{
     id: string | undefined;
     name: string | undefined;
     type?: string;
+    // Similarity (0-1) of the entity's question to the group's representative
+    // question (FAQ clusters only)
+    similarity?: number;
   }>;
   conflictDetails: ConflictDetail[];
+  // Combined confidence of the details (0-1)
+  score: number;
   severity: "high" | "medium" | "low";
 }
+
+// A finding returned by a rule; the detector stamps the rule id, the detail
+// id and the severity for its confidence onto it
+export type RuleFinding = Omit<ConflictDetail, "id" | "ruleId" | "severity">;
+
+// Minimum confidence for each severity; anything below medium is low
+export interface SeverityBands {
+  high: number;
+  medium: number;
+}
+
+// Tunable detection settings; see DEFAULT_DETECTION_PROFILE for the defaults
+export interface DetectionProfile {
+  // Minimum normalized name similarity (0-1) before comparing content
+  nameSimilarityThreshold: number;
+  // Minimum word overlap (0-1) for two facts to refer to the same thing
+  contextSimilarityThreshold: number;
+  // Relative difference (0-1) under which two quantities count as equal
+  quantityTolerance: number;
+  // When non-empty, only these entity types are analyzed
+  includedEntityTypes: string[];
+  // Entity types skipped entirely
+  excludedEntityTypes: string[];
+  // Ordered text fields compared per entity type; "*" applies to unlisted types
+  fieldPriorities: Record<string, string[]>;
+  // Confidence thresholds that map scores onto severities
+  severityBands: SeverityBands;
+  // Match FAQ questions and entity names with a local sentence-embedding
+  // model (server-side analysis only); lexical matching is used without it
+  semanticSimilarity: boolean;
+  // Minimum semantic similarity (0-1) to group questions or pair names
+  semanticSimilarityThreshold: number;
+  // Minimum overlap (0-1) of stemmed content words for two FAQ questions to
+  // be clustered as the same question
+  questionSimilarityThreshold: number;
+  // Minimum share (0-1) of an FAQ question's keywords, weighted by rarity,
+  // a passage of another entity type must contain to be compared with the
+  // FAQ's answer
+  crossTypeSimilarityThreshold: number;
+  // Discovered fields compared between similarly named entities and between
+  // language profiles, per entity type
+  comparedFields: Record<string, ComparedField[]>;
+}
+
+// Scores how alike two short texts (names, questions) are
+export interface SimilarityProvider {
+  id: string;
+  // Precompute whatever similarity needs for these texts (e.g. embeddings),
+  // so the synchronous detection pass can use it
+  prepare?: (texts: string[]) => Promise<void>;
+  // Similarity of two texts, 0-1, on the character-level scale of the name
+  // threshold. Model scores run higher, so a provider only reports one that
+  // reaches minSemanticSimilarity and otherwise falls back to lexical.
+  similarity: (
+    text1: string,
+    text2: string,
+    minSemanticSimilarity?: number
+  ) => number;
+  // Embedding of a prepared text, for nearest-neighbour candidate generation
+  embedding?: (text: string) => number[] | undefined;
+  // Why the provider is using lexical similarity instead of its model, if it
+  // is (e.g. the model could not be loaded)
+  fallbackReason?: () => string | undefined;
+}
+
+export interface RuleContext {
+  entityType: string;
+  profile: DetectionProfile;
+  // Normalized name similarity of the pair (pair-scoped rules only)
+  nameSimilarity?: number;
+  // Normalized representative question of the cluster (FAQ group-scoped rules only)
+  question?: string;
+  // Domain most of the account's website URLs point at, if any
+  dominantDomain?: string;
+  // Passage of the second entity matched to the FAQ's question, with its
+  // topic similarity (cross-type rules only)
+  passage?: { text: string; similarity: number };
+}
+
+export interface ConflictRule {
+  id: string;
+  name: string;
+  description: string;
+  // Entity types the rule applies to; omit to apply to every type
+  entityTypes?: string[];
+  // Entity types the rule never applies to
+  excludedEntityTypes?: string[];
+  // "entity" rules see one entity at a time, "pair" rules two, "group" rules
+  // a set of related entities, "locale" rules every language profile of one
+  // entity and "cross" rules an FAQ and an entity of another type covering
+  // its topic
+  scope: "entity" | "pair" | "group" | "locale" | "cross";
+  // Exact-match keys (pair rules only) so candidate generation pairs entities sharing one
+  blockingKeys?: (entity: YextEntity) => string[];
+  // Pair rules that read context.nameSimilarity need similarly named pairs generated
+  usesNameSimilarity?: boolean;
+  evaluate: (entities: YextEntity[], context: RuleContext) => RuleFinding[];
+  // Pair rules only: compares, as one group, entities sharing one of the
+  // rule's blocking keys too widely to pair (e.g. a call-center phone)
+  evaluateBlock?: (
+    entities: YextEntity[],
+    context: RuleContext
+  ) => RuleFinding[];
+}
+
+export interface DetectionOptions {
+  // Overrides merged onto the default detection profile
+  profile?: Partial<DetectionProfile>;
+  // Extra rules to run in addition to the registered ones
+  rules?: ConflictRule[];
+  // When set, only these rule ids run
+  enabledRules?: string[];
+  // Rule ids to skip for this run
+  disabledRules?: string[];
+  // Name and question similarity; defaults to lexical matching, or to the
+  // embedding model when the profile enables semanticSimilarity
+  similarityProvider?: SimilarityProvider;
+  // Second-stage check of text contradictions (detectConflictsAsync only)
+  adjudicator?: Adjudicator;
+  // Called once per entity type with candidate-generation counts
+  onBlockingStats?: (stats: BlockingStats) => void;
+  // Called as entity types are processed and pairs are compared
+  onProgress?: (progress: DetectionProgress) => void;
+  // Stops detectConflictsAsync at its next progress checkpoint when aborted
+  signal?: AbortSignal;
+  // Called at each progress checkpoint with the conflicts found since the last one
+  onConflicts?: (conflicts: ConflictGroup[]) => void;
+  // Called with problems that degrade detection without stopping it
+  onWarning?: (message: string) => void;
+}
+
+export interface DetectionProgress {
+  // Entity type currently being processed
+  entityType: string;
+  entityTypesProcessed: number;
+  totalEntityTypes: number;
+  pairsCompared: number;
+  conflictsFound: number;
+}
+
+// Events streamed (as NDJSON) by /api/conflicts/analyze and posted by the
+// browser detection worker
+export type AnalysisEvent =
+  | { type: "fetch"; page: number; fetched: number; total: number }
+  | { type: "fields"; fields: DiscoveredField[] }
+  | ({ type: "detect" } & DetectionProgress)
+  | { type: "conflicts"; conflicts: ConflictGroup[] }
+  | { type: "warning"; message: string }
+  | { type: "result"; totalEntities: number; conflicts: ConflictGroup[] }
+  | { type: "error"; error: string; details?: string };
+
+// Message that starts an analysis in the browser detection worker
+export interface AnalysisRequest {
+  businessId: string;
+  apiKey: string;
+  profile?: Partial<DetectionProfile>;
+}
+
+export interface BlockingStats {
+  entityType: string;
+  entities: number;
+  // Pairs an exhaustive comparison would have checked
+  totalPairs: number;
+  // Pairs that reached the pairwise rules
+  candidatePairs: number;
+  // Oversized name blocks skipped as uninformative
+  skippedBlocks: number;
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { canonicalizeUrl, getDomain, getDominantDomain } from "@/lib/url";
+
+describe("canonicalizeUrl", () => {
+  it("drops the scheme, www, default port, tracking and trailing slash", () => {
+    expect(
+      canonicalizeUrl("https://WWW.Example.com:443/menu/?utm_source=x")
+    ).toBe("example.com/menu");
+  });
+
+  it("keeps meaningful query parameters and drops fragments", () => {
+    expect(
+      canonicalizeUrl("http://example.com/menu?item=2&utm_medium=y#top")
+    ).toBe("example.com/menu?item=2");
+  });
+});
+
+describe("getDomain", () => {
+  it("keeps the registrable domain under multi-part suffixes", () => {
+    expect(getDomain("https://shop.example.co.uk/x")).toBe("example.co.uk");
+  });
+});
+
+describe("getDominantDomain", () => {
+  it("returns the domain most URLs share", () => {
+    expect(
+      getDominantDomain([
+        "https://a.com/1",
+        "https://www.a.com/2",
+        "https://b.com",
+      ])
+    ).toBe("a.com");
+  });
+
+  it("needs enough URLs and a majority", () => {
+    expect(
+      getDominantDomain(["https://a.com", "https://b.com"])
+    ).toBeUndefined();
+    expect(
+      getDominantDomain(["https://a.com", "https://b.com", "https://c.com"])
+    ).toBeUndefined();
+  });
+});
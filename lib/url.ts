@@ -0,0 +1,101 @@
+// Query parameters that only track campaigns or clicks, not page identity
+const TRACKING_PARAMS = new Set([
+  "gclid",
+  "dclid",
+  "fbclid",
+  "msclkid",
+  "yclid",
+  "mc_cid",
+  "mc_eid",
+  "_ga",
+  "_gl",
+  "igshid",
+  "y_source",
+]);
+
+// Second-level labels under which domains are registered, e.g. example.co.uk
+const SECOND_LEVEL_LABELS = new Set(["co", "com", "org", "net", "ac", "gov"]);
+
+// Share of URLs that must point at one domain for it to count as dominant
+const DOMINANT_DOMAIN_SHARE = 0.5;
+// Fewer URLs than this are not enough to decide on a dominant domain
+const MIN_URLS_FOR_DOMINANT_DOMAIN = 3;
+
+function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase();
+  return lower.startsWith("utm_") || TRACKING_PARAMS.has(lower);
+}
+
+function parseUrl(url: string): URL | null {
+  const trimmed = url.trim();
+  if (!trimmed) return null;
+  try {
+    // Bare hosts like "example.com/menu" are common in listings
+    return new URL(
+      /^[a-z][a-z\d+.-]*:\/\//i.test(trimmed) ? trimmed : `http://${trimmed}`
+    );
+  } catch {
+    return null;
+  }
+}
+
+// Canonical form for comparing URLs: scheme, "www.", default ports, trailing
+// slashes, fragments, tracking parameters and parameter order are ignored,
+// e.g. "https://WWW.Example.com:443/menu/?utm_source=x" -> "example.com/menu"
+export function canonicalizeUrl(url: string): string {
+  const parsed = parseUrl(url);
+  if (!parsed) return url.trim().toLowerCase();
+
+  // URL already lowercases the host and drops the scheme's default port
+  const host = parsed.hostname.replace(/^www\./, "");
+  const port = parsed.port ? `:${parsed.port}` : "";
+  const path = parsed.pathname.replace(/\/+$/, "");
+
+  const params = Array.from(parsed.searchParams.entries())
+    .filter(([name]) => !isTrackingParam(name))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = params.length > 0 ? `?${new URLSearchParams(params)}` : "";
+
+  return `${host}${port}${path}${query}`;
+}
+
+// Registrable domain of a URL, e.g. "https://shop.example.co.uk/x" -> "example.co.uk"
+export function getDomain(url: string): string {
+  const parsed = parseUrl(url);
+  if (!parsed) return "";
+
+  const labels = parsed.hostname.replace(/\.$/, "").split(".");
+  // IP addresses and single-label hosts are their own domain
+  if (labels.length <= 2 || /^\d+$/.test(labels[labels.length - 1])) {
+    return parsed.hostname;
+  }
+  const keep =
+    labels[labels.length - 1].length === 2 &&
+    SECOND_LEVEL_LABELS.has(labels[labels.length - 2])
+      ? 3
+      : 2;
+  return labels.slice(-keep).join(".");
+}
+
+// The domain most of the account's URLs point at, if one clearly dominates
+export function getDominantDomain(urls: string[]): string | undefined {
+  const counts = new Map<string, number>();
+  let total = 0;
+  for (const url of urls) {
+    const domain = getDomain(url);
+    if (!domain) continue;
+    counts.set(domain, (counts.get(domain) || 0) + 1);
+    total++;
+  }
+  if (total < MIN_URLS_FOR_DOMINANT_DOMAIN) return undefined;
+
+  let dominant: string | undefined;
+  let dominantCount = 0;
+  for (const [domain, count] of counts) {
+    if (count > dominantCount) {
+      dominant = domain;
+      dominantCount = count;
+    }
+  }
+  return dominantCount / total > DOMINANT_DOMAIN_SHARE ? dominant : undefined;
+}
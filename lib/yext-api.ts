@@ -0,0 +1,161 @@
+import type { YextEntity } from "@/lib/types";
+
+const PAGE_LIMIT = 50; // Maximum entities per page (API limit)
+const MAX_PAGES = 200; // With 50 per page, 200 pages = 10,000 entities max
+
+// Error from the Yext Management API, carrying the HTTP status to return
+export class YextApiError extends Error {
+  status: number;
+  details?: string;
+
+  constructor(message: string, status: number, details?: string) {
+    super(message);
+    this.name = "YextApiError";
+    this.status = status;
+    this.details = details;
+  }
+}
+
+function getErrorMessage(status: number): string {
+  switch (status) {
+    case 401:
+      return "Invalid API key. Please ensure you're using a valid API key from the API Credentials tab with 'Entities (Management API)' permissions.";
+    case 403:
+      return "Access forbidden. Please ensure your API key has 'Entities (Management API)' permissions.";
+    case 404:
+      return "Account not found. Please verify the business ID is correct.";
+    default:
+      return `API request failed with status ${status}`;
+  }
+}
+
+export interface FetchProgress {
+  page: number;
+  fetched: number;
+  total: number;
+}
+
+export interface FetchOptions {
+  // Also fetch every entity's alternate language profiles
+  languageProfiles?: boolean;
+}
+
+// Fetch one page of a list endpoint; language profiles come grouped per entity
+async function fetchPage(
+  businessId: string,
+  apiKey: string,
+  endpoint: "entities" | "entityprofiles",
+  offset: number
+): Promise<{ items: YextEntity[]; count: number }> {
+  const url = `https://api.yextapis.com/v2/accounts/${businessId}/${endpoint}?api_key=${encodeURIComponent(
+    apiKey
+  )}&v=20240101&limit=${PAGE_LIMIT}&offset=${offset}`;
+
+  const response = await fetch(url, {
+    method: "GET",
+    headers: {
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.log(`[v0] API request failed:`, response.status, errorText);
+    throw new YextApiError(
+      getErrorMessage(response.status),
+      response.status,
+      errorText
+    );
+  }
+
+  const data = await response.json();
+  const items: YextEntity[] =
+    endpoint === "entities"
+      ? data.response?.entities || []
+      : (data.response?.profileLists || []).flatMap(
+          (list: { profiles?: YextEntity[] }) => list.profiles || []
+        );
+  return { items, count: data.response?.count || 0 };
+}
+
+// Fetch every entity in the account, following offset pagination. With
+// languageProfiles, each entity's other locales follow the primary profiles.
+export async function fetchAllEntities(
+  businessId: string,
+  apiKey: string,
+  onPage?: (progress: FetchProgress) => void,
+  options: FetchOptions = {}
+): Promise<{ entities: YextEntity[]; pagesFetched: number }> {
+  const endpoints: Array<"entities" | "entityprofiles"> =
+    options.languageProfiles ? ["entities", "entityprofiles"] : ["entities"];
+  let allEntities: YextEntity[] = [];
+  let page = 1;
+
+  for (const endpoint of endpoints) {
+    // Pages count entities, so language profiles are paged by entity too
+    let entitiesSeen = 0;
+    let endpointPages = 0;
+    let hasMorePages = true;
+
+    while (hasMorePages) {
+      const offset = entitiesSeen;
+      console.log(
+        `[v0] Fetching ${endpoint} page ${page} (offset: ${offset})...`
+      );
+
+      const { items, count } = await fetchPage(
+        businessId,
+        apiKey,
+        endpoint,
+        offset
+      );
+      const pageEntities =
+        endpoint === "entities"
+          ? items.length
+          : new Set(items.map((item) => item.meta?.id || item.id)).size;
+
+      console.log(
+        `[v0] Page ${page}: ${items.length} ${endpoint} (Total: ${count})`
+      );
+
+      allEntities = allEntities.concat(items);
+      entitiesSeen += pageEntities;
+      onPage?.({ page, fetched: entitiesSeen, total: count });
+
+      // Check if we have more pages
+      hasMorePages = pageEntities === PAGE_LIMIT && entitiesSeen < count;
+      page++;
+      endpointPages++;
+
+      // Safety check to prevent infinite loops
+      if (endpointPages >= MAX_PAGES) {
+        console.log(`[v0] Safety limit reached at page ${page}`);
+        break;
+      }
+    }
+  }
+
+  return { entities: dedupeEntities(allEntities), pagesFetched: page - 1 };
+}
+
+// Remove duplicates by keeping only the first occurrence of each ID and
+// language, so a primary profile wins over its copy in the profile listing
+function dedupeEntities(entities: YextEntity[]): YextEntity[] {
+  const seenIds = new Set<string>();
+  const deduplicated = entities.filter((entity) => {
+    const id = `${entity.meta?.id || entity.id}|${entity.meta?.language || ""}`;
+    if (seenIds.has(id)) {
+      return false;
+    }
+    seenIds.add(id);
+    return true;
+  });
+
+  if (deduplicated.length !== entities.length) {
+    console.log(
+      `[v0] Removed ${entities.length - deduplicated.length} duplicate entities`
+    );
+  }
+
+  return deduplicated;
+}